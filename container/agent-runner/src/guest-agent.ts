@@ -0,0 +1,305 @@
+/**
+ * NanoClaw Guest Agent
+ * Runs inside the Firecracker VM and answers control requests from the host.
+ *
+ * socat listens on vsock and starts one instance of this process per
+ * connection, with the connection on stdin/stdout. Each connection carries a
+ * single request; the protocol is newline-delimited JSON:
+ *
+ *   host  → {"id":1,"method":"run_task","params":{...}}
+ *   guest ← {"id":1,"event":"output","data":{...}}   (zero or more)
+ *   guest ← {"id":1,"result":{...}}  or  {"id":1,"error":{"message":"..."}}
+ */
+
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const RUN_TASK_SCRIPT = '/home/agent/run-task.sh';
+// Touched when a task starts; files newer than this count as changed
+const TASK_MARKER = '/tmp/task.txt';
+// Never reported as changed or synced back (must match the host's src/mount-sync.ts)
+const WALK_EXCLUDED_DIRS = ['.git', 'node_modules'];
+const MEMORY_SAMPLE_INTERVAL_MS = 1000;
+
+interface Request {
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type EventSink = (event: string, data: unknown) => void;
+type Handler = (params: Record<string, unknown>, emit: EventSink) => Promise<unknown>;
+
+function log(message: string): void {
+  console.error(`[guest-agent] ${message}`);
+}
+
+function send(message: object): void {
+  process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function requireString(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Missing string parameter "${key}"`);
+  }
+  return value;
+}
+
+function runProcess(command: string, args: string[], input?: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: ['pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+    proc.stderr.on('data', chunk => { stderr += chunk; });
+    proc.on('error', reject);
+    proc.on('close', code => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+    });
+    proc.stdin.end(input);
+  });
+}
+
+function walkFiles(dir: string, visit: (filePath: string, stat: fs.Stats) => void): void {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (WALK_EXCLUDED_DIRS.includes(entry.name)) continue;
+      walkFiles(fullPath, visit);
+    } else if (entry.isFile()) {
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(fullPath);
+      } catch {
+        continue; // Removed while walking
+      }
+      visit(fullPath, stat);
+    }
+  }
+}
+
+function hashFile(filePath: string): string {
+  const hash = crypto.createHash('sha256');
+  const buffer = Buffer.alloc(1024 * 1024);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+// Memory in use by the whole guest (MemTotal - MemAvailable), in bytes
+function usedMemoryBytes(): number {
+  const kib: Record<string, number> = {};
+  for (const line of fs.readFileSync('/proc/meminfo', 'utf8').split('\n')) {
+    const [name, value] = line.split(/:\s+/);
+    if (value) kib[name] = parseInt(value, 10);
+  }
+  return ((kib.MemTotal ?? 0) - (kib.MemAvailable ?? 0)) * 1024;
+}
+
+const handlers: Record<string, Handler> = {
+  async ping() {
+    return { ok: true };
+  },
+
+  /**
+   * Run the task script as the agent user with the ContainerInput JSON on its
+   * stdin, streaming its output as it arrives. The host enforces the timeout
+   * by closing the connection, which kills the task. Guest memory is sampled
+   * while it runs and the peak returned with the exit code.
+   */
+  async run_task(params, emit) {
+    const input = requireString(params, 'input');
+    // Only the marker's mtime matters; the input carries secrets and /tmp is on the overlay disk
+    fs.writeFileSync(TASK_MARKER, `${new Date().toISOString()}\n`);
+
+    const proc = spawn('bash', [RUN_TASK_SCRIPT], {
+      cwd: '/home/agent',
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+    proc.stdin.end(input);
+    process.stdin.on('end', () => proc.kill('SIGKILL'));
+
+    proc.stdout.on('data', (chunk: Buffer) => emit('output', { stream: 'stdout', chunk: chunk.toString('utf8') }));
+    proc.stderr.on('data', (chunk: Buffer) => emit('output', { stream: 'stderr', chunk: chunk.toString('utf8') }));
+
+    let memPeakBytes = usedMemoryBytes();
+    const sampler = setInterval(() => {
+      memPeakBytes = Math.max(memPeakBytes, usedMemoryBytes());
+    }, MEMORY_SAMPLE_INTERVAL_MS);
+
+    try {
+      const exitCode = await new Promise<number>((resolve, reject) => {
+        proc.on('error', reject);
+        proc.on('close', code => resolve(code ?? 1));
+      });
+      return { exitCode, memPeakBytes };
+    } finally {
+      clearInterval(sampler);
+    }
+  },
+
+  async list_changed_files(params) {
+    const root = requireString(params, 'root');
+    let sinceMs = 0;
+    try {
+      sinceMs = fs.statSync(TASK_MARKER).mtimeMs;
+    } catch { /* no task has run, everything counts */ }
+
+    const files: string[] = [];
+    walkFiles(root, (filePath, stat) => {
+      if (stat.mtimeMs > sinceMs) files.push(filePath);
+    });
+    return { files };
+  },
+
+  /**
+   * Hash every file under a directory, keyed by path relative to it, so the
+   * host can compare it with the files the directory started from.
+   */
+  async hash_tree(params) {
+    const root = requireString(params, 'root');
+    // A missing root must fail, not look like every file was deleted
+    if (!fs.statSync(root).isDirectory()) {
+      throw new Error(`Not a directory: ${root}`);
+    }
+    const files: Record<string, { sha256: string; mode: number }> = {};
+    walkFiles(root, (filePath, stat) => {
+      try {
+        files[path.relative(root, filePath)] = { sha256: hashFile(filePath), mode: stat.mode & 0o777 };
+      } catch { /* removed while walking */ }
+    });
+    return { files };
+  },
+
+  async fetch_file(params) {
+    const filePath = requireString(params, 'path');
+    const stat = fs.statSync(filePath);
+    return {
+      content: fs.readFileSync(filePath).toString('base64'),
+      mode: stat.mode & 0o777
+    };
+  },
+
+  /**
+   * Write a file atomically (temp file then rename), so readers in the guest
+   * never see a half-written snapshot.
+   */
+  async write_file(params) {
+    const filePath = requireString(params, 'path');
+    const content = Buffer.from(requireString(params, 'content'), 'base64');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, content, { mode: typeof params.mode === 'number' ? params.mode : 0o644 });
+    fs.renameSync(tempPath, filePath);
+    return { bytes: content.length };
+  },
+
+  /**
+   * Read and remove every complete file with the given suffix in a directory.
+   * Writers in the guest use temp-then-rename, so in-progress files are skipped.
+   */
+  async drain_dir(params) {
+    const dir = requireString(params, 'dir');
+    const suffix = typeof params.suffix === 'string' ? params.suffix : '';
+    let names: string[];
+    try {
+      names = fs.readdirSync(dir).filter(name => name.endsWith(suffix)).sort();
+    } catch {
+      return { files: [] };
+    }
+
+    const files: Array<{ name: string; content: string }> = [];
+    for (const name of names) {
+      const filePath = path.join(dir, name);
+      try {
+        files.push({ name, content: fs.readFileSync(filePath).toString('base64') });
+        fs.unlinkSync(filePath);
+      } catch { /* removed concurrently */ }
+    }
+    return { files };
+  },
+
+  /**
+   * Unpack a base64 tar archive into a directory (used to provision pool VMs).
+   */
+  async put_archive(params) {
+    const dir = requireString(params, 'dir');
+    const archive = Buffer.from(requireString(params, 'archive'), 'base64');
+    fs.mkdirSync(dir, { recursive: true });
+    await runProcess('tar', ['-C', dir, '-xf', '-'], archive);
+    return { bytes: archive.length };
+  },
+
+  /**
+   * Mount a drive whose backing file the host just swapped in.
+   * The guest may still have the placeholder's blocks cached, so flush them first.
+   */
+  async mount_drive(params) {
+    const device = requireString(params, 'device');
+    const target = requireString(params, 'target');
+    const options = params.readOnly ? 'ro,noatime' : 'rw,noatime';
+    await runProcess('sudo', ['blockdev', '--flushbufs', device]);
+    await runProcess('sudo', ['mkdir', '-p', target]);
+    await runProcess('sudo', ['mount', '-o', options, device, target]);
+    return { ok: true };
+  }
+};
+
+async function handle(line: string): Promise<void> {
+  let request: Request;
+  try {
+    request = JSON.parse(line);
+  } catch {
+    send({ id: null, error: { message: 'Invalid JSON request' } });
+    return;
+  }
+
+  const handler = handlers[request.method];
+  if (!handler) {
+    send({ id: request.id, error: { message: `Unknown method: ${request.method}` } });
+    return;
+  }
+
+  try {
+    const result = await handler(request.params || {}, (event, data) => send({ id: request.id, event, data }));
+    send({ id: request.id, result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log(`${request.method} failed: ${message}`);
+    send({ id: request.id, error: { message } });
+  }
+}
+
+function main(): void {
+  let buffer = '';
+  let handled = false;
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', chunk => {
+    if (handled) return;
+    buffer += chunk;
+    const newline = buffer.indexOf('\n');
+    if (newline === -1) return;
+
+    handled = true;
+    handle(buffer.slice(0, newline))
+      .catch(err => log(`Unhandled error: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(() => process.exit(0));
+  });
+}
+
+main();
@@ -15,6 +15,7 @@ interface ContainerInput {
   chatJid: string;
   isMain: boolean;
   isScheduledTask?: boolean;
+  secrets?: Record<string, string>;
 }
 
 interface ContainerOutput {
@@ -45,6 +46,10 @@ async function readStdin(): Promise<string> {
   });
 }
 
+// The sandbox's /workspace; a plain host process gets a directory laid out the same way
+const WORKSPACE_DIR = process.env.NANOCLAW_WORKSPACE || '/workspace';
+const GROUP_DIR = path.join(WORKSPACE_DIR, 'group');
+
 const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
 const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
 
@@ -54,6 +59,17 @@ function writeOutput(output: ContainerOutput): void {
   console.log(OUTPUT_END_MARKER);
 }
 
+// One line per event, streamed to the host while the agent works
+const PROGRESS_MARKER = '---NANOCLAW_PROGRESS---';
+
+type ProgressEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; name: string };
+
+function writeProgress(event: ProgressEvent): void {
+  console.log(PROGRESS_MARKER + JSON.stringify(event));
+}
+
 function log(message: string): void {
   console.error(`[agent-runner] ${message}`);
 }
@@ -107,7 +123,7 @@ function createPreCompactHook(): HookCallback {
       const summary = getSessionSummary(sessionId, transcriptPath);
       const name = summary ? sanitizeFilename(summary) : generateFallbackName();
 
-      const conversationsDir = '/workspace/group/conversations';
+      const conversationsDir = path.join(GROUP_DIR, 'conversations');
       fs.mkdirSync(conversationsDir, { recursive: true });
 
       const date = new Date().toISOString().split('T')[0];
@@ -207,6 +223,14 @@ async function main(): Promise<void> {
     const stdinData = await readStdin();
     input = JSON.parse(stdinData);
     log(`Received input for group: ${input.groupFolder}`);
+
+    // Granted secrets only exist in this process's memory; the agent's tools see them as env vars
+    const secrets = input.secrets ?? {};
+    delete input.secrets;
+    Object.assign(process.env, secrets);
+    if (secrets.VERCEL_AI_GATEWAY_KEY) {
+      process.env.ANTHROPIC_CUSTOM_HEADERS = `x-ai-gateway-api-key: Bearer ${secrets.VERCEL_AI_GATEWAY_KEY}`;
+    }
   } catch (err) {
     writeOutput({
       status: 'error',
@@ -237,7 +261,7 @@ async function main(): Promise<void> {
     for await (const message of query({
       prompt,
       options: {
-        cwd: '/workspace/group',
+        cwd: GROUP_DIR,
         resume: input.sessionId,
         allowedTools: [
           'Bash',
@@ -261,6 +285,16 @@ async function main(): Promise<void> {
         log(`Session initialized: ${newSessionId}`);
       }
 
+      if (message.type === 'assistant') {
+        for (const block of message.message.content) {
+          if (block.type === 'text' && block.text.trim()) {
+            writeProgress({ type: 'text', text: block.text });
+          } else if (block.type === 'tool_use') {
+            writeProgress({ type: 'tool', name: block.name });
+          }
+        }
+      }
+
       if ('result' in message && message.result) {
         result = message.result as string;
       }
@@ -9,7 +9,8 @@ import fs from 'fs';
 import path from 'path';
 import { CronExpressionParser } from 'cron-parser';
 
-const IPC_DIR = '/workspace/ipc';
+// NANOCLAW_WORKSPACE is set when the agent runs as a plain host process
+const IPC_DIR = path.join(process.env.NANOCLAW_WORKSPACE || '/workspace', 'ipc');
 const MESSAGES_DIR = path.join(IPC_DIR, 'messages');
 const TASKS_DIR = path.join(IPC_DIR, 'tasks');
 
@@ -89,7 +90,9 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
           schedule_type: z.enum(['cron', 'interval', 'once']).describe('cron=recurring at specific times, interval=recurring every N ms, once=run once at specific time'),
           schedule_value: z.string().describe('cron: "*/5 * * * *" | interval: milliseconds like "300000" | once: local timestamp like "2026-02-01T15:30:00" (no Z suffix!)'),
           context_mode: z.enum(['group', 'isolated']).default('group').describe('group=runs with chat history and memory, isolated=fresh session (include context in prompt)'),
-          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)')
+          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)'),
+          vcpus: z.number().int().positive().optional().describe('Override vCPU count for this task (1 or even). Omit to use the group default.'),
+          memory_mib: z.number().int().positive().optional().describe('Override VM memory in MiB for this task. Omit to use the group default.')
         },
         async (args) => {
           // Validate schedule_value before writing IPC
@@ -129,6 +132,9 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
             schedule_type: args.schedule_type,
             schedule_value: args.schedule_value,
             context_mode: args.context_mode || 'group',
+            ...((args.vcpus || args.memory_mib) && {
+              resources: { vcpus: args.vcpus, memoryMib: args.memory_mib }
+            }),
             groupFolder: targetGroup,
             chatJid,
             createdBy: groupFolder,
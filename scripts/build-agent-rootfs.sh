@@ -2,20 +2,47 @@
 # build-agent-rootfs.sh — Builds the base Firecracker agent rootfs image
 #
 # This script creates /opt/firecracker/agent-rootfs.ext4, a minimal Ubuntu 22.04
-# rootfs with Node.js, Claude Code CLI, and SSH configured for NanoClaw agent tasks.
+# rootfs with Node.js, Claude Code CLI, and SSH configured for NanoClaw agent tasks,
+# and records it as the "default" image in the VM image registry.
 #
 # Run once on the host: sudo bash scripts/build-agent-rootfs.sh
-# Requires: debootstrap, root access
+# Requires: debootstrap, python3, root access
+#
+# Extra images for groups that need more tooling (selected with containerConfig.image):
+#   sudo EXTRA_PACKAGES=python3-pip,python3-venv bash scripts/build-agent-rootfs.sh python
+# builds /opt/firecracker/agent-rootfs-python.ext4 and registers it as "python".
+#
+# Environment:
+#   EXTRA_PACKAGES     comma-separated Ubuntu packages added to the image
+#   IMAGE_VERSION      version recorded in the registry (default: build timestamp)
+#   KERNEL_PATH        kernel paired with the image (default: /opt/firecracker/vmlinux.bin)
+#   VM_IMAGE_REGISTRY  registry to update (default: /opt/firecracker/images.json)
 
 set -euo pipefail
 
-ROOTFS_PATH="/opt/firecracker/agent-rootfs.ext4"
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+AGENT_RUNNER_SRC="$SCRIPT_DIR/../container/agent-runner"
+IMAGE_NAME="${1:-default}"
+if [[ ! $IMAGE_NAME =~ ^[a-z0-9][a-z0-9-]{0,31}$ ]]; then
+    echo "ERROR: image name must be lowercase letters, digits and dashes: $IMAGE_NAME"
+    exit 1
+fi
+if [ "$IMAGE_NAME" = "default" ]; then
+    ROOTFS_PATH="/opt/firecracker/agent-rootfs.ext4"
+else
+    ROOTFS_PATH="/opt/firecracker/agent-rootfs-$IMAGE_NAME.ext4"
+fi
+EXTRA_PACKAGES="${EXTRA_PACKAGES:-}"
+IMAGE_VERSION="${IMAGE_VERSION:-$(date -u +%Y.%m.%d-%H%M)}"
+KERNEL_PATH="${KERNEL_PATH:-/opt/firecracker/vmlinux.bin}"
+VM_IMAGE_REGISTRY="${VM_IMAGE_REGISTRY:-/opt/firecracker/images.json}"
 ROOTFS_SIZE_MB=2048
 MOUNT_POINT="/tmp/nanoclaw-rootfs-build"
 AGENT_USER="agent"
 AGENT_UID=1000
 
 echo "=== NanoClaw Agent Rootfs Builder ==="
+echo "Image: $IMAGE_NAME ($IMAGE_VERSION)${EXTRA_PACKAGES:+, extra packages: $EXTRA_PACKAGES}"
 
 # Check if rootfs already exists
 if [ -f "$ROOTFS_PATH" ]; then
@@ -29,9 +56,9 @@ if [ -f "$ROOTFS_PATH" ]; then
 fi
 
 # Check dependencies
-for cmd in debootstrap mkfs.ext4; do
+for cmd in debootstrap mkfs.ext4 python3; do
     if ! command -v "$cmd" &>/dev/null; then
-        echo "ERROR: $cmd is required. Install with: sudo apt install debootstrap"
+        echo "ERROR: $cmd is required. Install with: sudo apt install debootstrap python3"
         exit 1
     fi
 done
@@ -57,7 +84,7 @@ cleanup() {
 trap cleanup EXIT
 
 echo "Running debootstrap (Ubuntu 22.04 jammy)..."
-sudo debootstrap --include=systemd,systemd-sysv,openssh-server,sudo,curl,wget,git,jq,python3,build-essential,ca-certificates,gnupg,dbus \
+sudo debootstrap --include=systemd,systemd-sysv,openssh-server,sudo,curl,wget,git,jq,python3,build-essential,ca-certificates,gnupg,dbus,socat${EXTRA_PACKAGES:+,$EXTRA_PACKAGES} \
     jammy "$MOUNT_POINT" http://archive.ubuntu.com/ubuntu
 
 echo "Configuring rootfs..."
@@ -65,11 +92,43 @@ echo "Configuring rootfs..."
 # Set hostname
 echo "nanoclaw-agent" | sudo tee "$MOUNT_POINT/etc/hostname" > /dev/null
 
-# Configure fstab
+# Configure fstab (root is the overlay assembled by overlay-init, not /dev/vda)
 sudo bash -c "cat > $MOUNT_POINT/etc/fstab << 'EOF'
-/dev/vda / ext4 defaults 0 1
+# / is an overlay of the read-only base image (/dev/vda) and the per-VM disk (/dev/vdb)
 EOF"
 
+# The base image is attached read-only and shared by every VM. overlay-init
+# mounts the per-VM writable disk as an overlayfs upper layer and pivots into
+# the merged root before handing off to systemd (host boots with init=/sbin/overlay-init).
+echo "Installing overlay-init..."
+sudo mkdir -p "$MOUNT_POINT/overlay" "$MOUNT_POINT/mnt/root" "$MOUNT_POINT/rom"
+sudo bash -c "cat > $MOUNT_POINT/sbin/overlay-init << 'INITEOF'
+#!/bin/sh
+set -e
+mount -t proc proc /proc
+mount -t ext4 /dev/vdb /overlay
+mkdir -p /overlay/upper /overlay/work
+
+# The host injects files into the upper layer without seeing the base image, so
+# directories it had to create (e.g. /home/agent) would shadow the base image's
+# ownership and mode. Copy those back from the base before assembling the root.
+cd /overlay/upper
+find . -mindepth 1 -type d | sed 's|^\\./||' | while read -r dir; do
+    if [ -d \"/\$dir\" ]; then
+        chown --reference=\"/\$dir\" \"\$dir\"
+        chmod --reference=\"/\$dir\" \"\$dir\"
+    fi
+done
+cd /
+
+mount -t overlay overlay -o lowerdir=/,upperdir=/overlay/upper,workdir=/overlay/work /mnt/root
+umount /proc
+cd /mnt/root
+pivot_root . rom
+exec /sbin/init \"\$@\"
+INITEOF"
+sudo chmod 755 "$MOUNT_POINT/sbin/overlay-init"
+
 # Install Node.js 22
 echo "Installing Node.js 22..."
 sudo chroot "$MOUNT_POINT" bash -c '
@@ -93,11 +152,39 @@ sudo chroot "$MOUNT_POINT" bash -c "
     chmod 440 /etc/sudoers.d/$AGENT_USER
 "
 
+# Install the agent runner (includes the vsock guest agent the host drives VMs through)
+echo "Installing agent runner..."
+sudo mkdir -p "$MOUNT_POINT/opt/nanoclaw/agent-runner"
+sudo cp -r "$AGENT_RUNNER_SRC/package.json" "$AGENT_RUNNER_SRC/package-lock.json" \
+    "$AGENT_RUNNER_SRC/tsconfig.json" "$AGENT_RUNNER_SRC/src" "$MOUNT_POINT/opt/nanoclaw/agent-runner/"
+sudo chroot "$MOUNT_POINT" bash -c '
+    cd /opt/nanoclaw/agent-runner
+    npm ci
+    npm run build
+'
+
+# socat accepts each vsock connection and hands it to a fresh guest agent process
+sudo bash -c "cat > $MOUNT_POINT/etc/systemd/system/nanoclaw-guest-agent.service << 'EOF'
+[Unit]
+Description=NanoClaw guest agent (vsock control channel)
+After=local-fs.target
+
+[Service]
+User=agent
+ExecStart=/usr/bin/socat VSOCK-LISTEN:52,reuseaddr,fork EXEC:\"/usr/bin/node /opt/nanoclaw/agent-runner/dist/guest-agent.js\"
+Restart=always
+RestartSec=1
+
+[Install]
+WantedBy=multi-user.target
+EOF"
+
 # Create required directories
 sudo mkdir -p "$MOUNT_POINT/mnt/project"
 sudo mkdir -p "$MOUNT_POINT/tmp/output"
 sudo mkdir -p "$MOUNT_POINT/workspace/group"
 sudo mkdir -p "$MOUNT_POINT/workspace/global"
+sudo mkdir -p "$MOUNT_POINT/workspace/ipc/messages" "$MOUNT_POINT/workspace/ipc/tasks"
 sudo chown -R "$AGENT_UID:$AGENT_UID" "$MOUNT_POINT/mnt/project"
 sudo chown -R "$AGENT_UID:$AGENT_UID" "$MOUNT_POINT/tmp/output"
 sudo chown -R "$AGENT_UID:$AGENT_UID" "$MOUNT_POINT/workspace"
@@ -141,6 +228,7 @@ EOF"
 # Enable required services
 sudo chroot "$MOUNT_POINT" bash -c '
     systemctl enable ssh
+    systemctl enable nanoclaw-guest-agent
     systemctl enable systemd-networkd
     systemctl enable systemd-resolved
 '
@@ -149,25 +237,19 @@ sudo chroot "$MOUNT_POINT" bash -c '
 echo "Creating run-task.sh..."
 sudo bash -c "cat > $MOUNT_POINT/home/$AGENT_USER/run-task.sh << 'TASKEOF'
 #!/bin/bash
-# Runs inside the microVM. Args: \$1 = task description
+# Runs inside the microVM. stdin = ContainerInput JSON; the agent runner prints
+# ContainerOutput between ---NANOCLAW_OUTPUT_START--- / ---NANOCLAW_OUTPUT_END--- markers
 set -euo pipefail
 export HOME=/home/agent
 
 # Vercel AI Gateway configuration for Claude Max subscription passthrough
+# (the key comes with the run's input and the agent runner sends it)
 export ANTHROPIC_BASE_URL=\"https://ai-gateway.vercel.sh\"
 
-# Load the AI Gateway API key (injected during rootfs preparation)
-if [ -f /home/agent/.vercel-ai-gateway-key ]; then
-    export ANTHROPIC_CUSTOM_HEADERS=\"x-ai-gateway-api-key: Bearer \$(cat /home/agent/.vercel-ai-gateway-key)\"
-fi
-
-cd /mnt/project 2>/dev/null || cd /home/agent
-
-# Run Claude Code with the task
-# Claude authenticates via Max subscription (passed through Vercel AI Gateway)
-claude --print --dangerously-skip-permissions \"\$1\" 2>&1 | tee /tmp/output/result.txt
+cd /workspace/group
 
-echo \"NANOCLAW_TASK_COMPLETE\" > /tmp/output/status
+# Run the agent runner (Claude Agent SDK with session resume and the nanoclaw MCP tools)
+exec node /opt/nanoclaw/agent-runner/dist/index.js
 TASKEOF"
 
 sudo chmod +x "$MOUNT_POINT/home/$AGENT_USER/run-task.sh"
@@ -191,9 +273,39 @@ sudo chroot "$MOUNT_POINT" bash -c '
     rm -rf /tmp/*
 '
 
+# Unmount before checksumming so the registered hash matches what VMs boot
+cleanup
+trap - EXIT
+
+echo "Registering image in $VM_IMAGE_REGISTRY..."
+ROOTFS_SHA256="$(sha256sum "$ROOTFS_PATH" | cut -d' ' -f1)"
+python3 - "$VM_IMAGE_REGISTRY" "$IMAGE_NAME" "$KERNEL_PATH" "$ROOTFS_PATH" "$IMAGE_VERSION" "$ROOTFS_SHA256" << 'PYEOF'
+import datetime, json, os, sys
+registry_path, name, kernel, rootfs, version, sha256 = sys.argv[1:]
+registry = {}
+if os.path.exists(registry_path):
+    with open(registry_path) as f:
+        registry = json.load(f)
+registry[name] = {
+    'kernel': kernel,
+    'rootfs': rootfs,
+    'version': version,
+    'builtAt': datetime.datetime.now(datetime.timezone.utc).strftime('%Y-%m-%dT%H:%M:%SZ'),
+    'sha256': sha256,
+}
+tmp_path = registry_path + '.tmp'
+with open(tmp_path, 'w') as f:
+    json.dump(registry, f, indent=2)
+    f.write('\n')
+os.chmod(tmp_path, 0o644)
+os.replace(tmp_path, registry_path)
+PYEOF
+
 echo ""
 echo "=== Rootfs build complete ==="
-echo "Image: $ROOTFS_PATH"
+echo "Image: $IMAGE_NAME ($IMAGE_VERSION)"
+echo "Rootfs: $ROOTFS_PATH"
 echo "Size: $(du -h "$ROOTFS_PATH" | cut -f1)"
+echo "SHA-256: $ROOTFS_SHA256"
 echo ""
-echo "To rebuild: sudo bash scripts/build-agent-rootfs.sh"
+echo "To rebuild: sudo bash scripts/build-agent-rootfs.sh${1:+ $1}"
@@ -2,15 +2,27 @@
 # setup-firecracker-networking.sh — Sets up Firecracker networking (run once on host)
 #
 # Creates the fcbr0 bridge, enables IP forwarding, and configures NAT
-# so microVMs can reach the internet.
+# so microVMs can reach the internet. What each VM may actually reach is
+# decided per VM by NanoClaw's nftables rules on its TAP device.
 #
 # Usage: bash scripts/setup-firecracker-networking.sh
+#        VM_SUBNET=10.200.0.0/16 bash scripts/setup-firecracker-networking.sh
+#
+# VM_SUBNET must match the value NanoClaw runs with (default 172.16.0.0/24).
+# The bridge takes the first host address of the subnet.
 
 set -e
 
 BRIDGE=fcbr0
-BRIDGE_IP=172.16.0.1
-MASK=24
+VM_SUBNET=${VM_SUBNET:-172.16.0.0/24}
+NETWORK=${VM_SUBNET%/*}
+MASK=${VM_SUBNET#*/}
+
+IFS=. read -r O1 O2 O3 O4 <<< "$NETWORK"
+NET_INT=$(( (O1 << 24) | (O2 << 16) | (O3 << 8) | O4 ))
+NET_INT=$(( NET_INT & (0xFFFFFFFF << (32 - MASK)) & 0xFFFFFFFF ))
+BRIDGE_INT=$(( NET_INT + 1 ))
+BRIDGE_IP="$(( (BRIDGE_INT >> 24) & 255 )).$(( (BRIDGE_INT >> 16) & 255 )).$(( (BRIDGE_INT >> 8) & 255 )).$(( BRIDGE_INT & 255 ))"
 
 echo "=== NanoClaw Firecracker Networking Setup ==="
 
@@ -31,6 +43,16 @@ sudo sysctl -w net.ipv4.ip_forward=1
 grep -q "^net.ipv4.ip_forward=1" /etc/sysctl.conf 2>/dev/null || \
     echo "net.ipv4.ip_forward=1" | sudo tee -a /etc/sysctl.conf
 
+# Per-VM network policies filter on the bridge and need nftables plus bridge
+# connection tracking (to let replies to host-initiated connections through)
+if ! command -v nft &>/dev/null; then
+    echo "Installing nftables..."
+    sudo apt-get install -y nftables
+fi
+echo "Loading bridge connection tracking..."
+sudo modprobe nf_conntrack_bridge
+echo "nf_conntrack_bridge" | sudo tee /etc/modules-load.d/nanoclaw.conf > /dev/null
+
 # Setup NAT (detect host interface automatically)
 HOST_IFACE=$(ip route | grep default | awk '{print $5}' | head -1)
 if [ -z "$HOST_IFACE" ]; then
@@ -54,7 +76,7 @@ fi
 echo ""
 echo "=== Firecracker networking ready ==="
 echo "Bridge: $BRIDGE ($BRIDGE_IP/$MASK)"
-echo "VMs will use IPs in range 172.16.0.2 - 172.16.0.254"
+echo "Subnet: $VM_SUBNET (VMs lease addresses after the bridge)"
 echo ""
 echo "To make iptables rules persistent across reboots:"
 echo "  sudo apt install iptables-persistent"
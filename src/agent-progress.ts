@@ -0,0 +1,164 @@
+/**
+ * Agent Progress for NanoClaw
+ *
+ * The agent runner prints a progress line for every assistant text block and
+ * tool call while it works. This module turns the VM's streamed stdout back
+ * into events and applies the group's progress policy:
+ *
+ * - silent: nothing is posted until the final reply
+ * - status: a single status message, edited periodically with the latest activity
+ *   (or the run's queue position while it waits for a slot)
+ * - stream: every assistant text block is forwarded as its own message, after
+ *   a note if the run has to wait for a slot
+ *
+ * In every mode the typing indicator is refreshed while the agent runs, since
+ * WhatsApp drops it after a few seconds.
+ */
+
+import { AGENT_PROGRESS_MODE, PROGRESS_STATUS_INTERVAL } from './config.js';
+import { ProgressMode, RegisteredGroup } from './types.js';
+import { logger } from './logger.js';
+
+// Must match the agent runner
+export const PROGRESS_MARKER = '---NANOCLAW_PROGRESS---';
+const PROGRESS_MODES: ProgressMode[] = ['silent', 'status', 'stream'];
+const TYPING_KEEPALIVE_INTERVAL = 10_000;
+const STATUS_TEXT_MAX_CHARS = 120;
+
+export type AgentProgressEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; name: string };
+
+export interface ProgressSink {
+  /** Post a new message to the chat */
+  send(text: string): Promise<void>;
+  /** Post the run's status message the first time, edit it afterwards */
+  updateStatus(text: string): Promise<void>;
+  setTyping(isTyping: boolean): Promise<void>;
+}
+
+export interface ProgressReporter {
+  /** The run is waiting for a slot, at this position in the run queue */
+  onQueued(position: number): void;
+  onProgress(event: AgentProgressEvent): void;
+  /** True if the final result was already posted as a streamed message */
+  alreadySent(result: string): boolean;
+  /** Stop timers and leave the status message in its final state */
+  stop(): Promise<void>;
+}
+
+/**
+ * The group's progress policy, falling back to AGENT_PROGRESS_MODE.
+ */
+export function resolveProgressMode(group: RegisteredGroup): ProgressMode {
+  const fallback = PROGRESS_MODES.includes(AGENT_PROGRESS_MODE) ? AGENT_PROGRESS_MODE : 'silent';
+  const mode = group.containerConfig?.progress;
+  if (mode === undefined) return fallback;
+  if (!PROGRESS_MODES.includes(mode)) {
+    logger.warn({ group: group.name, mode }, 'Unknown progress mode, using default');
+    return fallback;
+  }
+  return mode;
+}
+
+/**
+ * Split streamed stdout into lines and report the progress events among them.
+ * Everything else (including the final output block) is ignored here.
+ */
+export function createProgressParser(onEvent: (event: AgentProgressEvent) => void): (chunk: string) => void {
+  let buffer = '';
+  return chunk => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith(PROGRESS_MARKER)) continue;
+      try {
+        onEvent(JSON.parse(line.slice(PROGRESS_MARKER.length)));
+      } catch {
+        logger.debug({ line: line.slice(0, 200) }, 'Ignoring malformed progress line');
+      }
+    }
+  };
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function describe(event: AgentProgressEvent): string {
+  if (event.type === 'tool') return `using ${event.name.replace(/^mcp__nanoclaw__/, '')}`;
+  const firstLine = event.text.trim().split('\n')[0];
+  return firstLine.length > STATUS_TEXT_MAX_CHARS
+    ? `${firstLine.slice(0, STATUS_TEXT_MAX_CHARS)}…`
+    : firstLine;
+}
+
+/**
+ * Start reporting progress for one run. Sink failures are logged and never
+ * interrupt the run.
+ */
+export function startProgressReporter(mode: ProgressMode, sink: ProgressSink): ProgressReporter {
+  const startedAt = Date.now();
+  let latest: AgentProgressEvent | null = null;
+  let statusPosted = false;
+  let changedSinceStatus = false;
+  let lastStreamed: string | null = null;
+  let queueNoted = false;
+  // Sends are chained so messages and edits reach the chat in order
+  let queue: Promise<void> = Promise.resolve();
+
+  const enqueue = (action: () => Promise<void>) => {
+    queue = queue.then(action).catch(err => logger.debug({ err }, 'Progress update failed'));
+  };
+
+  const typingTimer = setInterval(() => enqueue(() => sink.setTyping(true)), TYPING_KEEPALIVE_INTERVAL);
+
+  const statusTimer = mode === 'status'
+    ? setInterval(() => {
+        if (!latest || !changedSinceStatus) return;
+        changedSinceStatus = false;
+        const text = `Working (${formatElapsed(Date.now() - startedAt)}): ${describe(latest)}`;
+        statusPosted = true;
+        enqueue(() => sink.updateStatus(text));
+      }, PROGRESS_STATUS_INTERVAL)
+    : null;
+
+  return {
+    onQueued(position) {
+      if (mode === 'status') {
+        statusPosted = true;
+        enqueue(() => sink.updateStatus(`Queued, ${position === 1 ? 'next' : `position ${position}`} in line`));
+      } else if (mode === 'stream' && !queueNoted) {
+        queueNoted = true;
+        enqueue(() => sink.send('Busy with other requests, I\'ll get to this shortly.'));
+      }
+    },
+
+    onProgress(event) {
+      latest = event;
+      changedSinceStatus = true;
+      if (mode === 'stream' && event.type === 'text') {
+        const text = event.text.trim();
+        lastStreamed = text;
+        enqueue(() => sink.send(text));
+      }
+    },
+
+    alreadySent(result) {
+      return lastStreamed !== null && lastStreamed === result.trim();
+    },
+
+    async stop() {
+      clearInterval(typingTimer);
+      if (statusTimer) clearInterval(statusTimer);
+      if (statusPosted) {
+        enqueue(() => sink.updateStatus(`Finished after ${formatElapsed(Date.now() - startedAt)}`));
+      }
+      await queue;
+    }
+  };
+}
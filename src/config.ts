@@ -1,4 +1,6 @@
+import os from 'os';
 import path from 'path';
+import { ProgressMode, SandboxBackendName } from './types.js';
 
 export const ASSISTANT_NAME = process.env.ASSISTANT_NAME || 'Andy';
 export const POLL_INTERVAL = 2000;
@@ -10,15 +12,72 @@ const HOME_DIR = process.env.HOME || '/home/zack';
 
 // Mount security: allowlist stored OUTSIDE project root, never mounted into containers
 export const MOUNT_ALLOWLIST_PATH = path.join(HOME_DIR, '.config', 'nanoclaw', 'mount-allowlist.json');
+// Named secrets granted to groups via containerConfig.secrets; same rules as the allowlist
+export const SECRETS_PATH = path.join(HOME_DIR, '.config', 'nanoclaw', 'secrets.json');
 export const STORE_DIR = path.resolve(PROJECT_ROOT, 'store');
 export const GROUPS_DIR = path.resolve(PROJECT_ROOT, 'groups');
 export const DATA_DIR = path.resolve(PROJECT_ROOT, 'data');
 export const MAIN_GROUP_FOLDER = 'main';
 
+// Sandbox backend for groups without their own `sandbox` setting. docker runs
+// CONTAINER_IMAGE with CONTAINER_RUNTIME (docker or podman); process runs the
+// agent runner directly on the host, unisolated
+export const SANDBOX_BACKEND = (process.env.SANDBOX_BACKEND || 'firecracker') as SandboxBackendName;
+export const CONTAINER_RUNTIME = process.env.CONTAINER_RUNTIME || 'docker';
+export const CONTAINER_IMAGE = process.env.CONTAINER_IMAGE || 'nanoclaw-agent:latest';
+
+// Run admission across all groups and backends: at most MAX_CONCURRENT_RUNS at
+// once, and a run only starts while the host keeps RUN_MIN_FREE_MEMORY_MIB free
+// after the run's memory and the 1-minute load average per CPU is below RUN_MAX_LOAD
+export const MAX_CONCURRENT_RUNS = parseInt(process.env.MAX_CONCURRENT_RUNS || '4', 10);
+export const RUN_MIN_FREE_MEMORY_MIB = parseInt(process.env.RUN_MIN_FREE_MEMORY_MIB || '512', 10);
+export const RUN_MAX_LOAD = parseFloat(process.env.RUN_MAX_LOAD || '2');
+
+// The model API every agent talks to (Vercel AI Gateway), as ANTHROPIC_BASE_URL.
+// VM images set it in their run-task.sh
+export const MODEL_API_URL = 'https://ai-gateway.vercel.sh';
+
 export const CONTAINER_TIMEOUT = parseInt(process.env.CONTAINER_TIMEOUT || '600000', 10); // 10 min default
 export const CONTAINER_MAX_OUTPUT_SIZE = parseInt(process.env.CONTAINER_MAX_OUTPUT_SIZE || '10485760', 10); // 10MB default
 export const IPC_POLL_INTERVAL = 1000;
 
+// Progress shown while an agent runs, for groups without a containerConfig.progress
+// setting, and how often the status message is edited in 'status' mode
+export const AGENT_PROGRESS_MODE = (process.env.AGENT_PROGRESS_MODE || 'silent') as ProgressMode;
+export const PROGRESS_STATUS_INTERVAL = parseInt(process.env.PROGRESS_STATUS_INTERVAL || '30000', 10); // 30s default
+
+// Warm VM pool: number of pre-booted microVMs kept ready, and how long the pool
+// may sit without demand before its VMs are evicted (snapshots are kept on disk)
+export const VM_POOL_SIZE = parseInt(process.env.VM_POOL_SIZE || '0', 10);
+export const VM_POOL_IDLE_TIMEOUT = parseInt(process.env.VM_POOL_IDLE_TIMEOUT || '1800000', 10); // 30 min default
+export const VM_POOL_SNAPSHOTS = process.env.VM_POOL_SNAPSHOTS !== 'false';
+
+// MicroVM sizing: defaults for groups without a resources profile, and host-wide
+// maximums that group profiles and per-task overrides are validated against
+export const VM_DEFAULT_VCPUS = parseInt(process.env.VM_DEFAULT_VCPUS || '2', 10);
+export const VM_DEFAULT_MEMORY_MIB = parseInt(process.env.VM_DEFAULT_MEMORY_MIB || '1024', 10);
+export const VM_MAX_VCPUS = parseInt(process.env.VM_MAX_VCPUS || String(os.cpus().length), 10);
+export const VM_MAX_MEMORY_MIB = parseInt(process.env.VM_MAX_MEMORY_MIB || String(Math.floor(os.totalmem() / 1024 / 1024 / 2)), 10); // Half of host RAM
+export const VM_MAX_DISK_MIB = parseInt(process.env.VM_MAX_DISK_MIB || '16384', 10);
+
+// Named kernel/rootfs pairs groups pick with containerConfig.image (written by build-rootfs)
+export const VM_IMAGE_REGISTRY = process.env.VM_IMAGE_REGISTRY || '/opt/firecracker/images.json';
+
+// How often leftovers of crashed runs (VMM processes, TAPs, mounts, temp images)
+// are looked for and removed; the first pass runs at startup. 0 = startup only
+export const ORPHAN_REAP_INTERVAL = parseInt(process.env.ORPHAN_REAP_INTERVAL || '600000', 10); // 10 min default
+
+// Firecracker jailer: run each VM's VMM chrooted under JAILER_CHROOT_BASE as its
+// own uid/gid (JAILER_UID_BASE + vmId), in a cgroup v2 with CPU and memory limits.
+// FIRECRACKER_SECCOMP_FILTER replaces Firecracker's built-in seccomp filter
+export const FIRECRACKER_JAILER = process.env.FIRECRACKER_JAILER === 'true';
+export const JAILER_CHROOT_BASE = process.env.JAILER_CHROOT_BASE || '/srv/jailer';
+export const JAILER_UID_BASE = parseInt(process.env.JAILER_UID_BASE || '900000', 10);
+export const FIRECRACKER_SECCOMP_FILTER = process.env.FIRECRACKER_SECCOMP_FILTER || '';
+
+// Guest subnet for microVMs; the first host address is the bridge (must match setup-network)
+export const VM_SUBNET = process.env.VM_SUBNET || '172.16.0.0/24';
+
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
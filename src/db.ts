@@ -2,7 +2,7 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
 import { proto } from '@whiskeysockets/baileys';
-import { NewMessage, ScheduledTask, TaskRunLog } from './types.js';
+import { NewMessage, RunMetricsLog, ScheduledTask, TaskRunLog } from './types.js';
 import { STORE_DIR } from './config.js';
 
 let db: Database.Database;
@@ -58,6 +58,22 @@ export function initDatabase(): void {
       FOREIGN KEY (task_id) REFERENCES scheduled_tasks(id)
     );
     CREATE INDEX IF NOT EXISTS idx_task_run_logs ON task_run_logs(task_id, run_at);
+
+    CREATE TABLE IF NOT EXISTS run_metrics (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      group_folder TEXT NOT NULL,
+      run_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      boot_ms INTEGER,
+      vcpu_exits INTEGER NOT NULL,
+      block_read_bytes INTEGER NOT NULL,
+      block_write_bytes INTEGER NOT NULL,
+      net_rx_bytes INTEGER NOT NULL,
+      net_tx_bytes INTEGER NOT NULL,
+      mem_peak_bytes INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_run_metrics ON run_metrics(group_folder, run_at);
   `);
 
   // Add sender_name column if it doesn't exist (migration for existing DBs)
@@ -69,6 +85,11 @@ export function initDatabase(): void {
   try {
     db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN context_mode TEXT DEFAULT 'isolated'`);
   } catch { /* column already exists */ }
+
+  // Add resources column for per-task VM overrides (migration for existing DBs)
+  try {
+    db.exec(`ALTER TABLE scheduled_tasks ADD COLUMN resources TEXT`);
+  } catch { /* column already exists */ }
 }
 
 /**
@@ -163,28 +184,6 @@ export function storeMessage(msg: proto.IWebMessageInfo, chatJid: string, isFrom
     .run(msgId, chatJid, sender, senderName, content, timestamp, isFromMe ? 1 : 0);
 }
 
-export function getNewMessages(jids: string[], lastTimestamp: string, botPrefix: string): { messages: NewMessage[]; newTimestamp: string } {
-  if (jids.length === 0) return { messages: [], newTimestamp: lastTimestamp };
-
-  const placeholders = jids.map(() => '?').join(',');
-  // Filter out bot's own messages by checking content prefix (not is_from_me, since user shares the account)
-  const sql = `
-    SELECT id, chat_jid, sender, sender_name, content, timestamp
-    FROM messages
-    WHERE timestamp > ? AND chat_jid IN (${placeholders}) AND content NOT LIKE ?
-    ORDER BY timestamp
-  `;
-
-  const rows = db.prepare(sql).all(lastTimestamp, ...jids, `${botPrefix}:%`) as NewMessage[];
-
-  let newTimestamp = lastTimestamp;
-  for (const row of rows) {
-    if (row.timestamp > newTimestamp) newTimestamp = row.timestamp;
-  }
-
-  return { messages: rows, newTimestamp };
-}
-
 export function getMessagesSince(chatJid: string, sinceTimestamp: string, botPrefix: string): NewMessage[] {
   // Filter out bot's own messages by checking content prefix
   const sql = `
@@ -198,8 +197,8 @@ export function getMessagesSince(chatJid: string, sinceTimestamp: string, botPre
 
 export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>): void {
   db.prepare(`
-    INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at, resources)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     task.id,
     task.group_folder,
@@ -210,7 +209,8 @@ export function createTask(task: Omit<ScheduledTask, 'last_run' | 'last_result'>
     task.context_mode || 'isolated',
     task.next_run,
     task.status,
-    task.created_at
+    task.created_at,
+    task.resources ?? null
   );
 }
 
@@ -282,3 +282,25 @@ export function getTaskRunLogs(taskId: string, limit = 10): TaskRunLog[] {
     LIMIT ?
   `).all(taskId, limit) as TaskRunLog[];
 }
+
+export function logRunMetrics(log: RunMetricsLog): void {
+  db.prepare(`
+    INSERT INTO run_metrics (group_folder, run_at, duration_ms, status, boot_ms, vcpu_exits,
+      block_read_bytes, block_write_bytes, net_rx_bytes, net_tx_bytes, mem_peak_bytes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    log.group_folder, log.run_at, log.duration_ms, log.status, log.boot_ms, log.vcpu_exits,
+    log.block_read_bytes, log.block_write_bytes, log.net_rx_bytes, log.net_tx_bytes, log.mem_peak_bytes
+  );
+}
+
+export function getRunMetrics(groupFolder: string, limit = 10): RunMetricsLog[] {
+  return db.prepare(`
+    SELECT group_folder, run_at, duration_ms, status, boot_ms, vcpu_exits,
+      block_read_bytes, block_write_bytes, net_rx_bytes, net_tx_bytes, mem_peak_bytes
+    FROM run_metrics
+    WHERE group_folder = ?
+    ORDER BY run_at DESC
+    LIMIT ?
+  `).all(groupFolder, limit) as RunMetricsLog[];
+}
@@ -0,0 +1,96 @@
+/**
+ * Docker Runner for NanoClaw
+ *
+ * Runs each agent task in a fresh container of CONTAINER_IMAGE (built from
+ * container/Dockerfile with ./container/build.sh), using Docker or Podman.
+ * Mounts are bind mounts, read-only where the group's mount is, so the
+ * agent's changes land on the host directly. Isolation is the container
+ * runtime's: a shared kernel, unlike Firecracker.
+ */
+
+import { execFile, execFileSync } from 'child_process';
+import { CONTAINER_IMAGE, CONTAINER_RUNTIME, MODEL_API_URL } from './config.js';
+import { AgentCommand, LocalRunContext, localAgentStatus, runLocalAgent, stopLocalAgents } from './local-agent.js';
+import { SandboxBackend } from './sandbox-backend.js';
+import { RegisteredGroup } from './types.js';
+import { resolveVmResources, runMemoryMib } from './vm-resources.js';
+
+// The image's non-root user (see container/Dockerfile)
+const CONTAINER_HOME = '/home/node';
+
+function verifyDockerSetup(): void {
+  try {
+    execFileSync(CONTAINER_RUNTIME, ['version'], { stdio: 'pipe' });
+  } catch {
+    throw new Error(`[docker] ${CONTAINER_RUNTIME} is not installed or its daemon is not reachable`);
+  }
+  try {
+    execFileSync(CONTAINER_RUNTIME, ['image', 'inspect', CONTAINER_IMAGE], { stdio: 'pipe' });
+  } catch {
+    throw new Error(`[docker] Image ${CONTAINER_IMAGE} not found. Build it with: ./container/build.sh`);
+  }
+  console.log(`[docker] Using ${CONTAINER_IMAGE} with ${CONTAINER_RUNTIME}`);
+}
+
+function dockerCommand(group: RegisteredGroup, context: LocalRunContext): AgentCommand {
+  const name = `nanoclaw-${group.folder}-${context.runId}`;
+  const resources = resolveVmResources(group.containerConfig?.resources, context.input.resources);
+  const args = [
+    'run', '-i', '--rm',
+    '--name', name,
+    '--cpus', String(resources.vcpus),
+    '--memory', `${resources.memoryMib}m`,
+    // Model credentials come with the input (secrets.ts), never on the command line
+    '--env', `ANTHROPIC_BASE_URL=${MODEL_API_URL}`
+  ];
+
+  for (const mount of context.mounts) {
+    args.push('--mount', `type=bind,source=${mount.hostPath},target=${mount.guestPath}${mount.readOnly ? ',readonly' : ''}`);
+  }
+  args.push('--mount', `type=bind,source=${context.claudeDir},target=${CONTAINER_HOME}/.claude`);
+  args.push('--mount', `type=bind,source=${context.ipcDir},target=/workspace/ipc`);
+  args.push(CONTAINER_IMAGE);
+
+  return {
+    command: CONTAINER_RUNTIME,
+    args,
+    id: name,
+    // Killing the CLI would leave the container running
+    stop: () => execFile(CONTAINER_RUNTIME, ['kill', name], () => { /* already gone */ })
+  };
+}
+
+export const dockerBackend: SandboxBackend = {
+  name: 'docker',
+
+  async prepare() {
+    verifyDockerSetup();
+  },
+
+  validateGroup(group) {
+    const problems: string[] = [];
+    const config = group.containerConfig ?? {};
+    if (config.image !== undefined) {
+      problems.push('image selects a VM image, which the docker backend has no use for (it runs CONTAINER_IMAGE)');
+    }
+    if (config.network?.mode && config.network.mode !== 'full') {
+      problems.push(`network mode "${config.network.mode}" needs the firecracker backend`);
+    }
+    if (config.review?.length) {
+      problems.push('review needs the firecracker backend; the docker backend writes to mounts directly');
+    }
+    return problems;
+  },
+
+  // The container's --memory limit
+  memoryFor: (group, input) => runMemoryMib(group.containerConfig?.resources, input.resources),
+
+  run: (group, input, onProgress) =>
+    runLocalAgent('docker', group, input, onProgress, context => dockerCommand(group, context)),
+
+  status: () => localAgentStatus('docker'),
+
+  async cleanup() {
+    stopLocalAgents('docker');
+  }
+};
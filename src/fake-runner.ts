@@ -0,0 +1,135 @@
+/**
+ * Fake Runner for NanoClaw
+ *
+ * A sandbox backend that runs nothing: each run takes the next scripted run
+ * queued for its group and plays it back. It streams the scripted progress,
+ * writes the scripted IPC files to the group's IPC directory like the agent's
+ * MCP tools would, and returns the scripted output. Runs are recorded with
+ * their input.
+ *
+ * It exists for the end-to-end tests (test/), which drive the router and the
+ * scheduler against it without KVM, a container runtime or the Claude API.
+ * A run with nothing scripted for its group fails.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from './config.js';
+import { AgentProgressEvent } from './agent-progress.js';
+import { ContainerInput, ContainerOutput, SandboxBackend, SandboxStatus } from './sandbox-backend.js';
+import { RegisteredGroup } from './types.js';
+
+export interface FakeRun {
+  /** Defaults to a successful run without a result */
+  output?: Partial<ContainerOutput>;
+  progress?: AgentProgressEvent[];
+  /** Written to ipc/<folder>/messages/, as by the send_message tool */
+  messages?: object[];
+  /** Written to ipc/<folder>/tasks/, as by the task tools */
+  tasks?: object[];
+  /** The run doesn't finish until this settles, to keep it in flight */
+  hold?: Promise<unknown>;
+}
+
+export interface FakeRunRecord {
+  groupFolder: string;
+  input: ContainerInput;
+  output: ContainerOutput;
+}
+
+const scripts = new Map<string, FakeRun[]>();
+const history: FakeRunRecord[] = [];
+// Runs held in flight by their script, by run id
+const running = new Map<string, { groupFolder: string; startedAt: number }>();
+let runSeq = 0;
+let ipcSeq = 0;
+
+/**
+ * Queue runs for a group, played back in order by its next runs.
+ */
+export function scriptFakeRuns(groupFolder: string, ...runs: FakeRun[]): void {
+  scripts.set(groupFolder, [...(scripts.get(groupFolder) ?? []), ...runs]);
+}
+
+/**
+ * Every run so far, oldest first.
+ */
+export function fakeRunHistory(): FakeRunRecord[] {
+  return [...history];
+}
+
+/**
+ * Drop queued runs and history.
+ */
+export function resetFakeBackend(): void {
+  scripts.clear();
+  history.length = 0;
+}
+
+function writeIpcFiles(groupFolder: string, kind: 'messages' | 'tasks', payloads: object[]): void {
+  const dir = path.join(DATA_DIR, 'ipc', groupFolder, kind);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const payload of payloads) {
+    // Zero-padded so the watcher's directory listing keeps the scripted order
+    const file = path.join(dir, `${String(++ipcSeq).padStart(6, '0')}.json`);
+    fs.writeFileSync(file, JSON.stringify(payload));
+  }
+}
+
+async function runFake(
+  group: RegisteredGroup,
+  input: ContainerInput,
+  onProgress?: (event: AgentProgressEvent) => void
+): Promise<ContainerOutput> {
+  const run = scripts.get(group.folder)?.shift();
+  if (!run) {
+    const output: ContainerOutput = { status: 'error', result: null, error: `No scripted run for ${group.folder}` };
+    history.push({ groupFolder: group.folder, input, output });
+    return output;
+  }
+
+  for (const event of run.progress ?? []) {
+    onProgress?.(event);
+  }
+  const id = `fake-${++runSeq}`;
+  running.set(id, { groupFolder: group.folder, startedAt: Date.now() });
+  try {
+    await run.hold;
+  } finally {
+    running.delete(id);
+  }
+  writeIpcFiles(group.folder, 'messages', run.messages ?? []);
+  writeIpcFiles(group.folder, 'tasks', run.tasks ?? []);
+
+  const output: ContainerOutput = { status: 'success', result: null, ...run.output };
+  history.push({ groupFolder: group.folder, input, output });
+  return output;
+}
+
+export const fakeBackend: SandboxBackend = {
+  name: 'fake',
+
+  async prepare() {},
+
+  // Accepts every setting, so tests can cover them all
+  validateGroup: () => [],
+
+  memoryFor: () => 0,
+
+  run: runFake,
+
+  status(): SandboxStatus[] {
+    const now = Date.now();
+    return Array.from(running, ([id, run]) => ({
+      backend: 'fake',
+      groupFolder: run.groupFolder,
+      id,
+      startedAt: run.startedAt,
+      runtimeMs: now - run.startedAt
+    }));
+  },
+
+  async cleanup() {
+    scripts.clear();
+  }
+};
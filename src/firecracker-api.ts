@@ -0,0 +1,256 @@
+/**
+ * Firecracker REST API Client for NanoClaw
+ *
+ * Speaks HTTP directly over the VMM's Unix API socket. Any non-2xx response
+ * is raised as a FirecrackerApiError carrying Firecracker's fault_message, so a
+ * rejected configuration call fails the boot instead of being silently ignored.
+ *
+ * Request/response shapes follow the Firecracker OpenAPI spec (snake_case).
+ */
+
+import http from 'http';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const SNAPSHOT_TIMEOUT_MS = 60_000;
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface BootSource {
+  kernel_image_path: string;
+  boot_args?: string;
+  initrd_path?: string;
+}
+
+export interface RateLimiter {
+  bandwidth?: { size: number; one_time_burst?: number; refill_time: number };
+  ops?: { size: number; one_time_burst?: number; refill_time: number };
+}
+
+export interface Drive {
+  drive_id: string;
+  path_on_host: string;
+  is_root_device: boolean;
+  is_read_only: boolean;
+  partuuid?: string;
+  cache_type?: 'Unsafe' | 'Writeback';
+  io_engine?: 'Sync' | 'Async';
+  rate_limiter?: RateLimiter;
+}
+
+export interface NetworkInterface {
+  iface_id: string;
+  host_dev_name: string;
+  guest_mac?: string;
+  rx_rate_limiter?: RateLimiter;
+  tx_rate_limiter?: RateLimiter;
+}
+
+export interface Vsock {
+  guest_cid: number;
+  uds_path: string;
+  vsock_id?: string;
+}
+
+export interface MachineConfig {
+  vcpu_count: number;
+  mem_size_mib: number;
+  smt?: boolean;
+  track_dirty_pages?: boolean;
+  cpu_template?: string;
+}
+
+export type InstanceActionType = 'InstanceStart' | 'SendCtrlAltDel' | 'FlushMetrics';
+
+export interface MetricsConfig {
+  metrics_path: string;
+}
+
+export interface LoggerConfig {
+  log_path: string;
+  level?: 'Error' | 'Warning' | 'Info' | 'Debug' | 'Trace' | 'Off';
+  show_level?: boolean;
+  show_log_origin?: boolean;
+}
+
+export interface SnapshotCreateParams {
+  snapshot_type?: 'Full' | 'Diff';
+  snapshot_path: string;
+  mem_file_path: string;
+}
+
+export interface SnapshotLoadParams {
+  snapshot_path: string;
+  mem_backend: {
+    backend_type: 'File' | 'Uffd';
+    backend_path: string;
+  };
+  enable_diff_snapshots?: boolean;
+  resume_vm?: boolean;
+}
+
+export interface Balloon {
+  amount_mib: number;
+  deflate_on_oom: boolean;
+  stats_polling_interval_s?: number;
+}
+
+export interface BalloonStats {
+  target_pages: number;
+  actual_pages: number;
+  target_mib: number;
+  actual_mib: number;
+  free_memory?: number;
+  total_memory?: number;
+  available_memory?: number;
+  [key: string]: number | undefined;
+}
+
+export interface InstanceInfo {
+  id: string;
+  state: 'Not started' | 'Running' | 'Paused';
+  vmm_version: string;
+  app_name: string;
+}
+
+export class FirecrackerApiError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly endpoint: string,
+    public readonly statusCode: number | null,
+    public readonly faultMessage: string
+  ) {
+    super(`[FC] API ${method} ${endpoint} failed${statusCode ? ` (${statusCode})` : ''}: ${faultMessage}`);
+    this.name = 'FirecrackerApiError';
+  }
+}
+
+// ── Transport ──────────────────────────────────────────────────────────
+
+function request<T>(
+  socketPath: string,
+  method: 'GET' | 'PUT' | 'PATCH',
+  endpoint: string,
+  body?: object,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+): Promise<T> {
+  const payload = body === undefined ? undefined : JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      socketPath,
+      path: endpoint,
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(payload !== undefined && {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload)
+        })
+      }
+    }, res => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => {
+        const status = res.statusCode ?? 0;
+        let parsed: unknown = undefined;
+        if (data.trim()) {
+          try {
+            parsed = JSON.parse(data);
+          } catch {
+            parsed = data;
+          }
+        }
+
+        if (status >= 200 && status < 300) {
+          resolve(parsed as T);
+          return;
+        }
+
+        const fault = (parsed && typeof parsed === 'object' && 'fault_message' in parsed)
+          ? String((parsed as { fault_message: unknown }).fault_message)
+          : (typeof parsed === 'string' ? parsed : `HTTP ${status}`);
+        reject(new FirecrackerApiError(method, endpoint, status, fault));
+      });
+    });
+
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(new Error(`timed out after ${timeoutMs}ms`));
+    });
+    req.on('error', err => {
+      reject(new FirecrackerApiError(method, endpoint, null, err.message));
+    });
+
+    if (payload !== undefined) {
+      req.write(payload);
+    }
+    req.end();
+  });
+}
+
+// ── Client ─────────────────────────────────────────────────────────────
+
+export type FirecrackerClient = ReturnType<typeof createFirecrackerClient>;
+
+/**
+ * Create a client bound to one Firecracker process's API socket.
+ */
+export function createFirecrackerClient(socketPath: string) {
+  return {
+    socketPath,
+
+    getInstanceInfo: () =>
+      request<InstanceInfo>(socketPath, 'GET', '/'),
+
+    putBootSource: (bootSource: BootSource) =>
+      request<void>(socketPath, 'PUT', '/boot-source', bootSource),
+
+    putDrive: (drive: Drive) =>
+      request<void>(socketPath, 'PUT', `/drives/${drive.drive_id}`, drive),
+
+    patchDrive: (driveId: string, pathOnHost: string) =>
+      request<void>(socketPath, 'PATCH', `/drives/${driveId}`, { drive_id: driveId, path_on_host: pathOnHost }),
+
+    putNetworkInterface: (iface: NetworkInterface) =>
+      request<void>(socketPath, 'PUT', `/network-interfaces/${iface.iface_id}`, iface),
+
+    putVsock: (vsock: Vsock) =>
+      request<void>(socketPath, 'PUT', '/vsock', vsock),
+
+    putMachineConfig: (config: MachineConfig) =>
+      request<void>(socketPath, 'PUT', '/machine-config', config),
+
+    getMachineConfig: () =>
+      request<MachineConfig>(socketPath, 'GET', '/machine-config'),
+
+    putAction: (actionType: InstanceActionType) =>
+      request<void>(socketPath, 'PUT', '/actions', { action_type: actionType }),
+
+    putMetrics: (config: MetricsConfig) =>
+      request<void>(socketPath, 'PUT', '/metrics', config),
+
+    putLogger: (config: LoggerConfig) =>
+      request<void>(socketPath, 'PUT', '/logger', config),
+
+    pauseVm: () =>
+      request<void>(socketPath, 'PATCH', '/vm', { state: 'Paused' }),
+
+    resumeVm: () =>
+      request<void>(socketPath, 'PATCH', '/vm', { state: 'Resumed' }),
+
+    createSnapshot: (params: SnapshotCreateParams) =>
+      request<void>(socketPath, 'PUT', '/snapshot/create', params, SNAPSHOT_TIMEOUT_MS),
+
+    loadSnapshot: (params: SnapshotLoadParams) =>
+      request<void>(socketPath, 'PUT', '/snapshot/load', params, SNAPSHOT_TIMEOUT_MS),
+
+    putBalloon: (balloon: Balloon) =>
+      request<void>(socketPath, 'PUT', '/balloon', balloon),
+
+    patchBalloon: (amountMib: number) =>
+      request<void>(socketPath, 'PATCH', '/balloon', { amount_mib: amountMib }),
+
+    getBalloonStats: () =>
+      request<BalloonStats>(socketPath, 'GET', '/balloon/statistics')
+  };
+}
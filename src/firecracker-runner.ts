@@ -4,54 +4,141 @@
  * Each agent task gets its own microVM with its own Linux kernel,
  * providing strong isolation on Linux (Ubuntu Server 24.04).
  *
- * Flow: Allocate VM → Create TAP → Prepare rootfs → Boot VM → SSH task → Capture output → Cleanup
+ * Flow: Allocate VM → Create TAP → Prepare overlay → Boot VM → Run task over vsock → Capture output → Cleanup
+ *
+ * The base rootfs is attached read-only and shared by every VM. Each VM gets a
+ * small sparse ext4 disk that the guest's overlay-init mounts as an overlayfs
+ * upper layer, so run setup cost doesn't depend on the size of the base image.
+ *
+ * Mounts are packaged as their own ext4 images and attached as separate virtio
+ * drives, so a read-only mount is read-only at the hypervisor, not by convention.
  */
 
-import { execSync, spawn, ChildProcess } from 'child_process';
+import { execSync, execFile, spawn, ChildProcess } from 'child_process';
+import crypto from 'crypto';
 import fs from 'fs';
 import os from 'os';
 import path from 'path';
-import pino from 'pino';
+import { promisify } from 'util';
 import {
   GROUPS_DIR,
   DATA_DIR,
   CONTAINER_TIMEOUT,
-  CONTAINER_MAX_OUTPUT_SIZE
+  CONTAINER_MAX_OUTPUT_SIZE,
+  FIRECRACKER_JAILER
 } from './config.js';
 import { RegisteredGroup } from './types.js';
-import { validateAdditionalMounts } from './mount-security.js';
-
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: { target: 'pino-pretty', options: { colorize: true } }
-});
+import { logRunMetrics } from './db.js';
+import {
+  buildMounts,
+  ContainerInput,
+  ContainerOutput,
+  Mount,
+  parseAgentOutput,
+  SandboxBackend
+} from './sandbox-backend.js';
+import { runCommand, sleep } from './utils.js';
+import { createFirecrackerClient } from './firecracker-api.js';
+import { createGuestAgentClient, GuestAgentClient, GuestAgentError } from './guest-agent-client.js';
+import { startIpcBridge } from './ipc-bridge.js';
+import { AgentProgressEvent, createProgressParser } from './agent-progress.js';
+import { leaseVm, releaseVm, getVmNetwork, VmLease } from './vm-allocator.js';
+import { resolveVmResources, isDefaultVmResources, ResolvedVmResources, runMemoryMib } from './vm-resources.js';
+import {
+  applyNetworkPolicy,
+  buildGuestHosts,
+  defaultNetworkPolicy,
+  isDefaultNetworkPolicy,
+  removeNetworkPolicy,
+  resolveNetworkPolicy,
+  ResolvedNetworkPolicy
+} from './network-policy.js';
+import { startVmPool, stopVmPool, acquirePooledVM, releasePooledVM } from './vm-pool.js';
+import { reapOrphans, startOrphanReaper } from './reaper.js';
+import {
+  formatSyncConflict,
+  GuestTree,
+  hashHostTree,
+  SyncManifest,
+  syncMountBack
+} from './mount-sync.js';
+import { Review, ReviewInput, stageReview } from './mount-review.js';
+import { getVmImage, isDefaultVmImage, verifyVmImages, VmImage } from './vm-images.js';
+import { redactSecrets, resolveGroupSecrets } from './secrets.js';
+import { captureVmConsole, VmConsole, withConsoleTail } from './vm-console.js';
+import { formatRunMetrics, startMetricsCollector, VmMetricsCollector, VmRunMetrics } from './vm-metrics.js';
+import {
+  claimJailSocket,
+  destroyJail,
+  jailFor,
+  jailSnapshotPath,
+  hostPathInJail,
+  linkIntoJail,
+  moveOutOfJail,
+  prepareJail,
+  spawnJailedFirecracker,
+  verifyJailerSetup,
+  Jail,
+  JAIL_API_SOCKET,
+  JAIL_VSOCK_SOCKET
+} from './jailer.js';
+import { logger } from './logger.js';
+
+const execFileAsync = promisify(execFile);
 
 // ── Constants ──────────────────────────────────────────────────────────
 
 const FIRECRACKER_BIN = '/usr/local/bin/firecracker';
-const KERNEL_PATH = '/opt/firecracker/vmlinux.bin';
-const BASE_ROOTFS_PATH = '/opt/firecracker/agent-rootfs.ext4';
 const BRIDGE_NAME = 'fcbr0';
-const BRIDGE_IP = '172.16.0.1';
-const SUBNET_MASK = '255.255.255.0';
-const DNS_SERVER = '8.8.8.8';
-const VM_VCPUS = 2;
-const VM_MEM_MIB = 1024;
-const SSH_BOOT_TIMEOUT_MS = 30_000;
-const SSH_POLL_INTERVAL_MS = 500;
+const GUEST_CID = 3;
+const GUEST_BOOT_TIMEOUT_MS = 30_000;
+const GUEST_POLL_INTERVAL_MS = 500;
 const DEFAULT_TIMEOUT_MS = 600_000; // 10 minutes
 
+const DEFAULT_OVERLAY_SIZE_MIB = 4096; // Sparse, so only written blocks use host disk
+const MOUNT_WRITE_HEADROOM_MIB = 1024; // Free space added to writable mount images
+// Pool VMs are booted before their mounts are known, so they carry fixed drive
+// slots (read-only is fixed at boot) whose backing files are swapped at hand-out
+const POOL_READONLY_MOUNT_SLOTS = 4;
+const POOL_WRITABLE_MOUNT_SLOTS = 4;
+// Bumped when what a pool snapshot holds changes; older snapshots are discarded
+// (2: no SSH keys, which format 1 kept next to the overlay)
+const SNAPSHOT_FORMAT = 2;
+
+// Names of a jailed VM's files inside its jail; pool snapshots refer to them
+const JAIL_KERNEL_NAME = 'vmlinux.bin';
+const JAIL_ROOTFS_NAME = 'rootfs.ext4';
+const JAIL_OVERLAY_NAME = 'overlay.ext4';
+const JAIL_VMM_LOG_NAME = 'firecracker.log';
+const JAIL_METRICS_NAME = 'firecracker.metrics';
+
+// The agent user's Claude config: credentials go in, session transcripts come back out
+const GUEST_CLAUDE_DIR = '/home/agent/.claude';
+// Kept in guest memory: the overlay disk is a file in /tmp that outlives the run's data
+const GUEST_CLAUDE_TMPFS = `tmpfs ${GUEST_CLAUDE_DIR} tmpfs mode=700,uid=1000,gid=1000 0 0`;
+
 // ── Types ──────────────────────────────────────────────────────────────
 
-export interface Mount {
-  hostPath: string;
-  guestPath: string;
+interface MountDrive {
+  index: number;
+  driveId: string;
+  imagePath: string;
+  label: string;
   readOnly: boolean;
 }
 
 export interface TaskResult {
   output: string;
+  stderr: string;
   filesChanged: string[];
+  /** Writable mount files changed on both the host and in the VM, left unsynced */
+  syncConflicts: string[];
+  /** Changes to reviewed mounts, held for approval */
+  review: Review | null;
+  /** Serial console and Firecracker log for the run, if the VMM started */
+  consoleLog: string | null;
+  /** Resource usage of the run, if the VMM started */
+  metrics: VmRunMetrics | null;
   exitCode: number;
   durationMs: number;
 }
@@ -68,38 +155,88 @@ interface MicroVM {
   vmId: number;
   groupId: string;
   ip: string;
+  mac: string;
   tapDevice: string;
-  rootfsPath: string;
+  overlayPath: string;
   socketPath: string;
+  vsockPath: string;
   process: ChildProcess;
+  console: VmConsole;
+  metrics: VmMetricsCollector;
+  image: VmImage;
+  /** Host files each writable mount (by guest path) was built from, for sync-back */
+  syncBases: Map<string, SyncManifest>;
+  /** Set when the VMM runs under the jailer */
+  jail: Jail | null;
   startedAt: number;
+  pooled: boolean;
 }
 
 // ── State ──────────────────────────────────────────────────────────────
 
-let nextVmId = 1;
+// One per group: the run queue never starts two runs for a group at once
 const activeVMs = new Map<string, MicroVM>();
 
-// SSH keypair for VM communication
-function getSSHKeyPath(): string {
-  const homeDir = process.env.HOME || os.homedir();
-  return path.join(homeDir, '.ssh', 'nanoclaw_agent');
+function overlayPathFor(vmId: number): string {
+  return `/tmp/nanoclaw-overlay-${vmId}.ext4`;
 }
 
-// ── SSH Key Management ─────────────────────────────────────────────────
+function jailForVm(vmId: number): Jail | null {
+  return FIRECRACKER_JAILER ? jailFor(vmId) : null;
+}
 
-function ensureSSHKey(): void {
-  const keyPath = getSSHKeyPath();
-  if (fs.existsSync(keyPath)) return;
+function vmmLogPathFor(vmId: number): string {
+  return `/tmp/nanoclaw-fc-${vmId}.log`;
+}
 
-  const sshDir = path.dirname(keyPath);
-  fs.mkdirSync(sshDir, { recursive: true });
+function metricsPathFor(vmId: number): string {
+  return `/tmp/nanoclaw-fc-${vmId}.metrics`;
+}
 
-  console.log('[FC] Generating SSH keypair for VM communication...');
-  execSync(`ssh-keygen -t ed25519 -f ${keyPath} -N "" -C "nanoclaw-agent"`, {
-    stdio: 'pipe'
-  });
-  console.log(`[FC] SSH keypair generated at ${keyPath}`);
+function vsockPathFor(vmId: number): string {
+  const jail = jailForVm(vmId);
+  return jail ? hostPathInJail(jail, JAIL_VSOCK_SOCKET) : `/tmp/nanoclaw-vsock-${vmId}.sock`;
+}
+
+function mountDriveFor(vmId: number, index: number, readOnly: boolean): MountDrive {
+  return {
+    index,
+    driveId: `mount${index}`,
+    imagePath: `/tmp/nanoclaw-drive-${vmId}-${index}.ext4`,
+    label: `ncmount${index}`,
+    readOnly
+  };
+}
+
+// Drives are attached after rootfs (vda) and overlay (vdb), in index order
+function guestDeviceFor(drive: MountDrive): string {
+  return `/dev/vd${String.fromCharCode('c'.charCodeAt(0) + drive.index)}`;
+}
+
+function jailNameFor(drive: MountDrive): string {
+  return `${drive.driveId}.ext4`;
+}
+
+/**
+ * The path to give the VMM for a host file: the file itself, or for a jailed
+ * VM the file linked into its jail under `name`.
+ */
+async function vmmPathFor(
+  jail: Jail | null,
+  hostPath: string,
+  name: string,
+  access: 'r' | 'rw' | null
+): Promise<string> {
+  return jail ? linkIntoJail(jail, hostPath, name, access) : hostPath;
+}
+
+function removeMountImages(vmId: number): void {
+  const prefix = `nanoclaw-drive-${vmId}-`;
+  for (const file of fs.readdirSync('/tmp')) {
+    if (file.startsWith(prefix)) {
+      try { fs.unlinkSync(path.join('/tmp', file)); } catch { /* noop */ }
+    }
+  }
 }
 
 // ── Startup Checks ─────────────────────────────────────────────────────
@@ -121,55 +258,59 @@ export function verifyFirecrackerSetup(): void {
     );
   }
 
-  // Check kernel
-  if (!fs.existsSync(KERNEL_PATH)) {
-    throw new Error(
-      `[FC] Kernel not found at ${KERNEL_PATH}. Download a Firecracker-compatible vmlinux.`
-    );
+  // Check kernels and rootfs images (the default image must be usable)
+  const images = verifyVmImages();
+  console.log(`[FC] VM images: ${images.map(image => `${image.name} (${image.version})`).join(', ')}`);
+
+  if (FIRECRACKER_JAILER) {
+    verifyJailerSetup([...new Set(images.flatMap(image => [image.kernelPath, image.rootfsPath]))]);
   }
 
-  // Check base rootfs
-  if (!fs.existsSync(BASE_ROOTFS_PATH)) {
-    throw new Error(
-      `[FC] Agent rootfs not found at ${BASE_ROOTFS_PATH}. Run: npm run build-rootfs`
-    );
+  // Every TAP gets an nftables egress policy
+  try {
+    execSync('command -v nft', { stdio: 'pipe' });
+  } catch {
+    throw new Error('[FC] nft not found; network policies need nftables. Install with: sudo apt install nftables');
   }
 
-  // Check bridge
+  // Check bridge, and that it sits on the configured VM subnet
+  const network = getVmNetwork();
+  let bridgeAddrs: string;
   try {
-    execSync(`ip link show ${BRIDGE_NAME}`, { stdio: 'pipe' });
+    bridgeAddrs = execSync(`ip -4 -o addr show dev ${BRIDGE_NAME}`, { stdio: 'pipe' }).toString();
   } catch {
     throw new Error(
       `[FC] Network bridge ${BRIDGE_NAME} not found. Run: npm run setup-network`
     );
   }
+  if (!bridgeAddrs.includes(`${network.bridgeIp}/${network.prefixLength}`)) {
+    throw new Error(
+      `[FC] Bridge ${BRIDGE_NAME} does not have ${network.bridgeIp}/${network.prefixLength} (VM_SUBNET=${network.subnet}). ` +
+      'Run: VM_SUBNET=<subnet> npm run setup-network'
+    );
+  }
+
+  // Tear down whatever a previous, crashed process left behind
+  reapOrphans();
 
-  ensureSSHKey();
   console.log('[FC] Firecracker setup verified');
 }
 
 // ── VM Lifecycle ───────────────────────────────────────────────────────
 
-function allocateVm(groupId: string): { vmId: number; ip: string } {
-  const vmId = nextVmId++;
-  if (vmId > 253) {
-    throw new Error('[FC] Maximum VM count exceeded (253 concurrent VMs)');
-  }
-  const ip = `172.16.0.${vmId + 1}`;
-  return { vmId, ip };
-}
-
-function generateMac(vmId: number): string {
-  const hex = vmId.toString(16).padStart(2, '0');
-  return `AA:FC:00:00:00:${hex}`;
-}
-
-function createTapDevice(vmId: number): string {
-  const tap = `tap${vmId}`;
+/**
+ * Create the VM's TAP device with its network policy in place before it joins the bridge.
+ */
+async function createTapDevice(lease: VmLease, netPolicy: ResolvedNetworkPolicy): Promise<string> {
+  const tap = lease.tapDevice;
+  // A jailed VMM runs as the jail's uid, which must own the TAP to open it
+  const jail = jailForVm(lease.vmId);
+  const owner = jail ? ` user ${jail.uid}` : '';
   try {
-    execSync(`sudo ip tuntap add dev ${tap} mode tap`, { stdio: 'pipe' });
-    execSync(`sudo ip link set ${tap} up`, { stdio: 'pipe' });
-    execSync(`sudo ip link set ${tap} master ${BRIDGE_NAME}`, { stdio: 'pipe' });
+    await runCommand(`sudo ip tuntap add dev ${tap} mode tap${owner}`);
+    await applyNetworkPolicy(tap, lease.ip, lease.mac, netPolicy);
+    await runCommand(`sudo ip link set ${tap} up`);
+    await runCommand(`sudo ip link set ${tap} master ${BRIDGE_NAME}`);
     console.log(`[FC] Created TAP device ${tap}`);
   } catch (err) {
     throw new Error(`[FC] Failed to create TAP device ${tap}: ${err}`);
@@ -177,113 +318,182 @@ function createTapDevice(vmId: number): string {
   return tap;
 }
 
-function destroyTapDevice(tap: string): void {
+async function destroyTapDevice(tap: string): Promise<void> {
+  await removeNetworkPolicy(tap);
   try {
-    execSync(`sudo ip link delete ${tap}`, { stdio: 'pipe' });
+    await runCommand(`sudo ip link delete ${tap}`);
     console.log(`[FC] Destroyed TAP device ${tap}`);
   } catch {
     console.log(`[FC] TAP device ${tap} already gone`);
   }
 }
 
-function prepareRootfs(
-  vmId: number,
-  ip: string,
-  claudeAuthDir: string,
-  mounts: Mount[]
-): string {
-  const rootfsPath = `/tmp/nanoclaw-vm-${vmId}.ext4`;
-  const mountPoint = `/tmp/nanoclaw-mount-${vmId}`;
+/**
+ * Package a host directory as an ext4 image for one mount drive.
+ * Writable images get headroom for the agent's changes; both are sparse.
+ * For writable images, returns the manifest of the host files they were built from.
+ */
+async function buildMountImage(drive: MountDrive, hostPath: string): Promise<SyncManifest | null> {
+  const mountPoint = `${drive.imagePath}.mnt`;
+  const { stdout } = await runCommand(`du -sm ${hostPath}`, { timeout: 60000 });
+  const usedMib = parseInt(stdout.split(/\s+/)[0], 10) || 0;
+  const sizeMib = Math.ceil(usedMib * 1.25) + 64 + (drive.readOnly ? 0 : MOUNT_WRITE_HEADROOM_MIB);
 
-  // Copy base rootfs
-  execSync(`cp ${BASE_ROOTFS_PATH} ${rootfsPath}`, { stdio: 'pipe' });
+  // Build under a temporary name: a pool VM may still have the old image open
+  const buildPath = `${drive.imagePath}.tmp`;
+  fs.rmSync(buildPath, { force: true });
+  await runCommand(`truncate -s ${sizeMib}M ${buildPath}`);
+  await runCommand(`mkfs.ext4 -q -F -L ${drive.label} -E lazy_itable_init=1,lazy_journal_init=1 ${buildPath}`, { timeout: 60000 });
 
-  // Mount the rootfs image
-  fs.mkdirSync(mountPoint, { recursive: true });
-  execSync(`sudo mount -o loop ${rootfsPath} ${mountPoint}`, { stdio: 'pipe' });
+  // Taken just before the copy: the base that sync-back compares both sides against
+  const manifest = drive.readOnly ? null : await hashHostTree(hostPath);
 
+  fs.mkdirSync(mountPoint, { recursive: true });
+  await runCommand(`sudo mount -o loop ${buildPath} ${mountPoint}`);
   try {
-    const agentHome = path.join(mountPoint, 'home', 'agent');
-
-    // Inject SSH public key
-    const sshDir = path.join(agentHome, '.ssh');
-    execSync(`sudo mkdir -p ${sshDir}`, { stdio: 'pipe' });
-    const pubKey = fs.readFileSync(`${getSSHKeyPath()}.pub`, 'utf-8').trim();
-    execSync(`sudo bash -c 'echo "${pubKey}" > ${sshDir}/authorized_keys'`, { stdio: 'pipe' });
-    execSync(`sudo chmod 700 ${sshDir}`, { stdio: 'pipe' });
-    execSync(`sudo chmod 600 ${sshDir}/authorized_keys`, { stdio: 'pipe' });
-    execSync(`sudo chown -R 1000:1000 ${sshDir}`, { stdio: 'pipe' });
-
-    // Inject Claude credentials
-    if (fs.existsSync(claudeAuthDir)) {
-      const claudeDir = path.join(agentHome, '.claude');
-      execSync(`sudo mkdir -p ${claudeDir}`, { stdio: 'pipe' });
-      execSync(`sudo cp -r ${claudeAuthDir}/. ${claudeDir}/`, { stdio: 'pipe' });
-      execSync(`sudo chown -R 1000:1000 ${claudeDir}`, { stdio: 'pipe' });
-    }
+    // lost+found would otherwise show up in the workspace and be synced back
+    await runCommand(`sudo rmdir ${mountPoint}/lost+found`);
+    await runCommand(`sudo cp -a ${hostPath}/. ${mountPoint}/`, { timeout: 300000 });
+    await runCommand(`sudo chown -R 1000:1000 ${mountPoint}`);
+  } finally {
+    await runCommand(`sudo umount ${mountPoint}`);
+    fs.rmSync(mountPoint, { recursive: true, force: true });
+  }
+  fs.renameSync(buildPath, drive.imagePath);
+  return manifest;
+}
 
-    // Inject Vercel AI Gateway key
-    const gatewayKey = process.env.VERCEL_AI_GATEWAY_KEY;
-    if (gatewayKey) {
-      const keyFile = path.join(agentHome, '.vercel-ai-gateway-key');
-      execSync(`sudo bash -c 'echo "${gatewayKey}" > ${keyFile}'`, { stdio: 'pipe' });
-      execSync(`sudo chown 1000:1000 ${keyFile}`, { stdio: 'pipe' });
-      execSync(`sudo chmod 600 ${keyFile}`, { stdio: 'pipe' });
+/**
+ * Build one drive per mount for a cold boot, recording writable mounts' base
+ * manifests in syncBases. Mounts whose host path is missing are skipped,
+ * matching how they were handled when files were copied.
+ */
+async function prepareMountDrives(
+  vmId: number,
+  mounts: Mount[],
+  syncBases: Map<string, SyncManifest>
+): Promise<Map<Mount, MountDrive>> {
+  const drives = new Map<Mount, MountDrive>();
+  for (const mount of mounts) {
+    if (!fs.existsSync(mount.hostPath)) {
+      console.log(`[FC] Skipping non-existent mount: ${mount.hostPath}`);
+      continue;
     }
+    const drive = mountDriveFor(vmId, drives.size, mount.readOnly);
+    const manifest = await buildMountImage(drive, mount.hostPath);
+    if (manifest) syncBases.set(mount.guestPath, manifest);
+    drives.set(mount, drive);
+  }
+  return drives;
+}
 
-    // Copy project files from each mount into the rootfs
-    for (const mount of mounts) {
-      if (!fs.existsSync(mount.hostPath)) {
-        console.log(`[FC] Skipping non-existent mount: ${mount.hostPath}`);
-        continue;
-      }
-      const guestTarget = path.join(mountPoint, mount.guestPath.replace(/^\//, ''));
-      execSync(`sudo mkdir -p ${guestTarget}`, { stdio: 'pipe' });
-      execSync(`sudo cp -a ${mount.hostPath}/. ${guestTarget}/`, { stdio: 'pipe' });
-      execSync(`sudo chown -R 1000:1000 ${guestTarget}`, { stdio: 'pipe' });
+/**
+ * Empty drive slots for a pool VM, filled by assignPoolMountDrives at hand-out.
+ */
+async function preparePlaceholderDrives(vmId: number): Promise<MountDrive[]> {
+  const drives: MountDrive[] = [];
+  for (let i = 0; i < POOL_READONLY_MOUNT_SLOTS + POOL_WRITABLE_MOUNT_SLOTS; i++) {
+    const drive = mountDriveFor(vmId, i, i < POOL_READONLY_MOUNT_SLOTS);
+    fs.rmSync(drive.imagePath, { force: true });
+    await runCommand(`truncate -s 1M ${drive.imagePath}`);
+    drives.push(drive);
+  }
+  return drives;
+}
+
+/**
+ * Create the VM's writable overlay disk and inject its per-run files.
+ * Files are written into the overlay's upper layer and appear on top of the
+ * read-only base image once the guest's overlay-init has assembled the root.
+ */
+async function prepareOverlay(
+  lease: VmLease,
+  mountDrives: Map<Mount, MountDrive>,
+  diskSizeMib: number | null,
+  netPolicy: ResolvedNetworkPolicy
+): Promise<string> {
+  const overlayPath = overlayPathFor(lease.vmId);
+  const mountPoint = `/tmp/nanoclaw-mount-${lease.vmId}`;
+  const network = getVmNetwork();
+
+  // Sparse image: creation cost is independent of size; the group's disk size
+  // sets how much the guest can write on top of the base image
+  fs.rmSync(overlayPath, { force: true });
+  await runCommand(`truncate -s ${diskSizeMib ?? DEFAULT_OVERLAY_SIZE_MIB}M ${overlayPath}`);
+  await runCommand(`mkfs.ext4 -q -F -E lazy_itable_init=1,lazy_journal_init=1 ${overlayPath}`, { timeout: 60000 });
+
+  // Mount the overlay image
+  fs.mkdirSync(mountPoint, { recursive: true });
+  await runCommand(`sudo mount -o loop ${overlayPath} ${mountPoint}`);
+
+  try {
+    const upperDir = path.join(mountPoint, 'upper');
+    await runCommand(`sudo mkdir -p ${upperDir} ${path.join(mountPoint, 'work')}`);
+
+    // Mount each drive at its guest path on boot (shadows the base image's fstab).
+    // Credentials go on a tmpfs so they never reach this disk (see deliverCredentials)
+    const fstabLines = [GUEST_CLAUDE_TMPFS];
+    for (const [mount, drive] of mountDrives) {
+      const guestTarget = path.join(upperDir, mount.guestPath.replace(/^\//, ''));
+      await runCommand(`sudo mkdir -p ${guestTarget}`);
+      fstabLines.push(`LABEL=${drive.label} ${mount.guestPath} ext4 ${drive.readOnly ? 'ro' : 'rw'},noatime 0 2`);
     }
+    await runCommand(`sudo mkdir -p ${path.join(upperDir, 'etc')}`);
+    await runCommand(`sudo tee ${path.join(upperDir, 'etc', 'fstab')}`, { input: fstabLines.join('\n') + '\n' });
 
-    // Configure static network inside rootfs
-    const networkDir = path.join(mountPoint, 'etc', 'systemd', 'network');
-    execSync(`sudo mkdir -p ${networkDir}`, { stdio: 'pipe' });
-    const networkConfig = `[Match]\nName=eth0\n\n[Network]\nAddress=${ip}/24\nGateway=${BRIDGE_IP}\nDNS=${DNS_SERVER}\n`;
-    execSync(`sudo bash -c 'cat > ${networkDir}/10-eth0.network << "NETEOF"\n${networkConfig}NETEOF'`, { stdio: 'pipe' });
+    // Configure static network (shadows the base image's config)
+    const networkDir = path.join(upperDir, 'etc', 'systemd', 'network');
+    await runCommand(`sudo mkdir -p ${networkDir}`);
+    const dnsLines = netPolicy.dnsServers.map(server => `DNS=${server}\n`).join('');
+    const networkConfig = `[Match]\nName=eth0\n\n[Network]\nAddress=${lease.ip}/${network.prefixLength}\nGateway=${network.bridgeIp}\n${dnsLines}`;
+    await runCommand(`sudo bash -c 'cat > ${networkDir}/10-eth0.network << "NETEOF"\n${networkConfig}NETEOF'`);
 
-    // Configure DNS
-    const resolvConf = path.join(mountPoint, 'etc', 'resolv.conf');
-    execSync(`sudo bash -c 'echo "nameserver ${DNS_SERVER}" > ${resolvConf}'`, { stdio: 'pipe' });
+    // Configure DNS, and pin the hosts a restricted policy allows to the addresses it allowed
+    const resolvConf = netPolicy.dnsServers.map(server => `nameserver ${server}\n`).join('');
+    await runCommand(`sudo tee ${path.join(upperDir, 'etc', 'resolv.conf')}`, { input: resolvConf });
+    await runCommand(`sudo tee ${path.join(upperDir, 'etc', 'hosts')}`, { input: buildGuestHosts(netPolicy) });
 
   } finally {
-    execSync(`sudo umount ${mountPoint}`, { stdio: 'pipe' });
+    await runCommand(`sudo umount ${mountPoint}`);
     fs.rmSync(mountPoint, { recursive: true, force: true });
   }
 
-  return rootfsPath;
+  return overlayPath;
 }
 
-function firecrackerApiCall(socketPath: string, method: string, endpoint: string, body: object): void {
-  const json = JSON.stringify(body).replace(/'/g, "'\\''");
-  execSync(
-    `curl --unix-socket ${socketPath} -s -X ${method} ` +
-    `'http://localhost${endpoint}' ` +
-    `-H 'Content-Type: application/json' ` +
-    `-d '${json}'`,
-    { stdio: 'pipe', timeout: 5000 }
-  );
-}
+/**
+ * Start the VM's Firecracker process, through the jailer if configured, and
+ * wait for its API socket. A jailed VMM is limited to the VM's resources.
+ * Its output is captured from the start (see vm-console.ts).
+ */
+async function startFirecrackerProcess(
+  vmId: number,
+  resources: ResolvedVmResources
+): Promise<{ process: ChildProcess; console: VmConsole; socketPath: string; jail: Jail | null }> {
+  const jail = jailForVm(vmId);
+  if (jail) {
+    await prepareJail(jail);
+    const proc = await spawnJailedFirecracker(jail, FIRECRACKER_BIN, resources.vcpus, resources.memoryMib);
+    const vmConsole = captureVmConsole(proc, vmmLogPathFor(vmId));
+    // Jail teardown (cleanupPartialVM) stops the VMM if the socket never appears
+    const socketPath = await claimJailSocket(jail, JAIL_API_SOCKET, 5000);
+    return { process: proc, console: vmConsole, socketPath, jail };
+  }
 
-function startFirecrackerProcess(vmId: number): { process: ChildProcess; socketPath: string } {
   const socketPath = `/tmp/nanoclaw-fc-${vmId}.socket`;
 
-  // Clean up old socket if it exists
-  if (fs.existsSync(socketPath)) {
-    fs.unlinkSync(socketPath);
+  // Clean up old sockets if they exist (Firecracker refuses to bind over the vsock one)
+  for (const stale of [socketPath, vsockPathFor(vmId)]) {
+    if (fs.existsSync(stale)) {
+      fs.unlinkSync(stale);
+    }
   }
 
   const proc = spawn(FIRECRACKER_BIN, ['--api-sock', socketPath], {
     stdio: ['ignore', 'pipe', 'pipe'],
     detached: true
   });
+  const vmConsole = captureVmConsole(proc, vmmLogPathFor(vmId));
 
   // Wait for socket to appear
   const deadline = Date.now() + 5000;
@@ -292,259 +502,693 @@ function startFirecrackerProcess(vmId: number): { process: ChildProcess; socketP
       proc.kill('SIGKILL');
       throw new Error(`[FC] Firecracker socket did not appear at ${socketPath}`);
     }
-    execSync('sleep 0.1');
+    await sleep(100);
   }
 
-  return { process: proc, socketPath };
+  return { process: proc, console: vmConsole, socketPath, jail: null };
 }
 
-function configureAndBootVM(
+async function configureAndBootVM(
   socketPath: string,
-  vmId: number,
-  ip: string,
-  rootfsPath: string,
-  tapDevice: string
-): void {
-  const mac = generateMac(vmId);
+  lease: VmLease,
+  overlayPath: string,
+  mountDrives: MountDrive[],
+  resources: ResolvedVmResources,
+  netPolicy: ResolvedNetworkPolicy,
+  image: VmImage,
+  jail: Jail | null
+): Promise<void> {
+  const api = createFirecrackerClient(socketPath);
+  const network = getVmNetwork();
   const bootArgs = [
     'console=ttyS0',
     'reboot=k',
     'panic=1',
     'pci=off',
-    `ip=${ip}::${BRIDGE_IP}:${SUBNET_MASK}::eth0:off`,
-    `nameserver=${DNS_SERVER}`
+    `ip=${lease.ip}::${network.bridgeIp}:${network.subnetMask}::eth0:off`,
+    ...netPolicy.dnsServers.slice(0, 1).map(server => `nameserver=${server}`),
+    'init=/sbin/overlay-init'
   ].join(' ');
 
+  // Firecracker's own log; the serial console goes to its stdout
+  await api.putLogger({
+    log_path: await vmmPathFor(jail, vmmLogPathFor(lease.vmId), JAIL_VMM_LOG_NAME, 'rw'),
+    level: 'Info'
+  });
+  await api.putMetrics({
+    metrics_path: await vmmPathFor(jail, metricsPathFor(lease.vmId), JAIL_METRICS_NAME, 'rw')
+  });
+
   // Configure kernel
-  firecrackerApiCall(socketPath, 'PUT', '/boot-source', {
-    kernel_image_path: KERNEL_PATH,
+  await api.putBootSource({
+    kernel_image_path: await vmmPathFor(jail, image.kernelPath, JAIL_KERNEL_NAME, null),
     boot_args: bootArgs
   });
 
-  // Configure rootfs
-  firecrackerApiCall(socketPath, 'PUT', '/drives/rootfs', {
+  // Configure rootfs: the image's shared base rootfs, never written by a VM
+  await api.putDrive({
     drive_id: 'rootfs',
-    path_on_host: rootfsPath,
+    path_on_host: await vmmPathFor(jail, image.rootfsPath, JAIL_ROOTFS_NAME, null),
     is_root_device: true,
+    is_read_only: true
+  });
+
+  // Per-VM writable layer (/dev/vdb in the guest)
+  await api.putDrive({
+    drive_id: 'overlay',
+    path_on_host: await vmmPathFor(jail, overlayPath, JAIL_OVERLAY_NAME, 'rw'),
+    is_root_device: false,
     is_read_only: false
   });
 
+  // One drive per mount; read-only mounts can't be written even by guest root
+  for (const drive of [...mountDrives].sort((a, b) => a.index - b.index)) {
+    await api.putDrive({
+      drive_id: drive.driveId,
+      path_on_host: await vmmPathFor(jail, drive.imagePath, jailNameFor(drive), drive.readOnly ? 'r' : 'rw'),
+      is_root_device: false,
+      is_read_only: drive.readOnly
+    });
+  }
+
   // Configure network
-  firecrackerApiCall(socketPath, 'PUT', '/network-interfaces/eth0', {
+  await api.putNetworkInterface({
     iface_id: 'eth0',
-    guest_mac: mac,
-    host_dev_name: tapDevice
+    guest_mac: lease.mac,
+    host_dev_name: lease.tapDevice
+  });
+
+  // Control channel to the guest agent
+  await api.putVsock({
+    guest_cid: GUEST_CID,
+    uds_path: jail ? JAIL_VSOCK_SOCKET : vsockPathFor(lease.vmId)
   });
 
   // Configure resources
-  firecrackerApiCall(socketPath, 'PUT', '/machine-config', {
-    vcpu_count: VM_VCPUS,
-    mem_size_mib: VM_MEM_MIB
+  await api.putMachineConfig({
+    vcpu_count: resources.vcpus,
+    mem_size_mib: resources.memoryMib,
+    ...(resources.cpuTemplate && { cpu_template: resources.cpuTemplate })
   });
 
   // Start the VM
-  firecrackerApiCall(socketPath, 'PUT', '/actions', {
-    action_type: 'InstanceStart'
-  });
+  await api.putAction('InstanceStart');
+  if (jail) {
+    await claimJailSocket(jail, JAIL_VSOCK_SOCKET, 5000);
+  }
 
-  console.log(`[FC] VM ${vmId} started (${ip}, ${tapDevice})`);
+  console.log(`[FC] VM ${lease.vmId} started (${lease.ip}, ${lease.tapDevice})`);
 }
 
-function waitForSSH(ip: string): void {
-  const keyPath = getSSHKeyPath();
-  const deadline = Date.now() + SSH_BOOT_TIMEOUT_MS;
+// ── Guest Control ──────────────────────────────────────────────────────
+// VMs are driven through the guest agent over vsock; images without it are
+// refused at startup (vm-images.ts).
 
+async function waitForGuest(vm: MicroVM): Promise<void> {
+  const guest = createGuestAgentClient(vm.vsockPath);
+  const deadline = Date.now() + GUEST_BOOT_TIMEOUT_MS;
   while (Date.now() < deadline) {
     try {
-      execSync(
-        `ssh -i ${keyPath} -o StrictHostKeyChecking=no -o ConnectTimeout=2 ` +
-        `-o BatchMode=yes agent@${ip} 'echo ready'`,
-        { stdio: 'pipe', timeout: 5000 }
-      );
+      await guest.ping();
       return;
     } catch {
       // Not ready yet
-      execSync(`sleep ${SSH_POLL_INTERVAL_MS / 1000}`);
+      await sleep(GUEST_POLL_INTERVAL_MS);
     }
   }
 
-  throw new Error(`[FC] SSH did not become available at ${ip} within ${SSH_BOOT_TIMEOUT_MS}ms`);
+  throw new Error(`[FC] Guest agent in VM ${vm.vmId} did not respond within ${GUEST_BOOT_TIMEOUT_MS}ms`);
+}
+
+/**
+ * True if a pool VM has enough drive slots of each kind for these mounts.
+ */
+function fitsPoolMountSlots(mounts: Mount[]): boolean {
+  const present = mounts.filter(m => fs.existsSync(m.hostPath));
+  return present.filter(m => m.readOnly).length <= POOL_READONLY_MOUNT_SLOTS &&
+    present.filter(m => !m.readOnly).length <= POOL_WRITABLE_MOUNT_SLOTS;
 }
 
-function executeTaskViaSSH(ip: string, task: string, timeoutMs: number): { stdout: string; exitCode: number } {
-  const keyPath = getSSHKeyPath();
+/**
+ * Copy the group's Claude config into a booted VM over vsock, onto the guest's
+ * tmpfs. Model credentials and granted secrets come with the run's input.
+ */
+async function deliverCredentials(vm: MicroVM, claudeAuthDir: string): Promise<void> {
+  if (!fs.existsSync(claudeAuthDir)) return;
+  const { stdout: archive } = await execFileAsync('tar', ['-C', claudeAuthDir, '-cf', '-', '.'], {
+    encoding: 'buffer',
+    maxBuffer: CONTAINER_MAX_OUTPUT_SIZE
+  });
+  await createGuestAgentClient(vm.vsockPath).putArchive(GUEST_CLAUDE_DIR, archive);
+}
 
-  // Escape the task string for safe SSH transmission:
-  // Use base64 encoding to avoid any shell escaping issues
-  const taskBase64 = Buffer.from(task).toString('base64');
-  const remoteCmd = `echo '${taskBase64}' | base64 -d | bash -c 'read -r -d "" TASK; bash /home/agent/run-task.sh "$TASK"'`;
+/**
+ * Push credentials into an already-running VM and swap its placeholder drive
+ * slots for this run's mount images. Used for warm pool VMs, whose overlay
+ * was prepared before the group was known.
+ */
+async function provisionVM(vm: MicroVM, claudeAuthDir: string, mounts: Mount[]): Promise<void> {
+  const api = createFirecrackerClient(vm.socketPath);
+  const guest = createGuestAgentClient(vm.vsockPath);
 
-  // Use a simpler approach: write task to a temp file, then execute
-  const sshBase = `ssh -i ${keyPath} -o StrictHostKeyChecking=no -o BatchMode=yes agent@${ip}`;
+  await deliverCredentials(vm, claudeAuthDir);
 
-  // Write task to file inside VM, then run
-  const escapedTask = task.replace(/\\/g, '\\\\').replace(/'/g, "'\\''");
-  try {
-    // Upload task via stdin to avoid shell escaping issues
-    execSync(
-      `${sshBase} 'cat > /tmp/task.txt'`,
-      { input: task, stdio: ['pipe', 'pipe', 'pipe'], timeout: 5000 }
+  let nextReadOnly = 0;
+  let nextWritable = POOL_READONLY_MOUNT_SLOTS;
+  for (const mount of mounts) {
+    if (!fs.existsSync(mount.hostPath)) {
+      console.log(`[FC] Skipping non-existent mount: ${mount.hostPath}`);
+      continue;
+    }
+    const index = mount.readOnly ? nextReadOnly++ : nextWritable++;
+    const drive = mountDriveFor(vm.vmId, index, mount.readOnly);
+    const manifest = await buildMountImage(drive, mount.hostPath);
+    if (manifest) vm.syncBases.set(mount.guestPath, manifest);
+    // The new image is a new file, so a jailed VM's link must be replaced too
+    await api.patchDrive(
+      drive.driveId,
+      await vmmPathFor(vm.jail, drive.imagePath, jailNameFor(drive), drive.readOnly ? 'r' : 'rw')
     );
 
-    // Execute the task runner with the file
-    const result = execSync(
-      `${sshBase} 'bash /home/agent/run-task.sh "$(cat /tmp/task.txt)"'`,
-      { stdio: ['pipe', 'pipe', 'pipe'], timeout: timeoutMs, maxBuffer: CONTAINER_MAX_OUTPUT_SIZE }
+    await guest.mountDrive(guestDeviceFor(drive), mount.guestPath, drive.readOnly);
+  }
+}
+
+/**
+ * Feed ContainerInput to the agent runner in the guest and collect its output.
+ * stdout and stderr are kept apart so log lines can't split the output block.
+ * Progress lines are reported as they stream in.
+ */
+async function executeTask(
+  vm: MicroVM,
+  input: ContainerInput,
+  timeoutMs: number,
+  onProgress?: (event: AgentProgressEvent) => void
+): Promise<{ stdout: string; stderr: string; exitCode: number; memPeakBytes: number | null }> {
+  let stdout = '';
+  let stderr = '';
+  const parseProgress = onProgress ? createProgressParser(onProgress) : null;
+  try {
+    const { exitCode, memPeakBytes } = await createGuestAgentClient(vm.vsockPath).runTask(
+      JSON.stringify(input),
+      timeoutMs,
+      CONTAINER_MAX_OUTPUT_SIZE,
+      ({ stream, chunk }) => {
+        if (stream === 'stdout') {
+          stdout += chunk;
+          parseProgress?.(chunk);
+        } else {
+          stderr += chunk;
+        }
+      }
     );
-    return { stdout: result.toString(), exitCode: 0 };
-  } catch (err: any) {
-    if (err.killed) {
+    return { stdout, stderr, exitCode, memPeakBytes: memPeakBytes ?? null };
+  } catch (err) {
+    if (err instanceof GuestAgentError && err.timedOut) {
       throw new Error(`[FC] Task timed out after ${timeoutMs}ms`);
     }
-    return {
-      stdout: (err.stdout || '').toString() + '\n' + (err.stderr || '').toString(),
-      exitCode: err.status ?? 1
-    };
+    throw err;
   }
 }
 
-function getChangedFiles(ip: string): string[] {
-  const keyPath = getSSHKeyPath();
+async function getChangedFiles(vm: MicroVM): Promise<string[]> {
   try {
-    const result = execSync(
-      `ssh -i ${keyPath} -o StrictHostKeyChecking=no -o BatchMode=yes agent@${ip} ` +
-      `'cd /mnt/project 2>/dev/null && git diff --name-only 2>/dev/null || find /mnt/project -newer /tmp/task.txt -type f 2>/dev/null | head -50'`,
-      { stdio: ['pipe', 'pipe', 'pipe'], timeout: 10000 }
-    );
-    return result.toString().trim().split('\n').filter(Boolean);
+    return await createGuestAgentClient(vm.vsockPath).listChangedFiles('/mnt/project');
   } catch {
     return [];
   }
 }
 
-function syncFilesBack(ip: string, mounts: Mount[]): void {
-  const keyPath = getSSHKeyPath();
+/**
+ * Copy regular files under a guest directory that changed during the task into
+ * the matching host directory. Returns the number of files copied.
+ */
+async function copyChangedFilesFromGuest(
+  guest: GuestAgentClient,
+  guestRoot: string,
+  hostRoot: string
+): Promise<number> {
+  const files = await guest.listChangedFiles(guestRoot);
+  let copied = 0;
+  for (const guestFile of files) {
+    const relative = path.posix.relative(guestRoot, guestFile);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+    const { content, mode } = await guest.fetchFile(guestFile);
+    const hostFile = path.join(hostRoot, relative);
+    fs.mkdirSync(path.dirname(hostFile), { recursive: true });
+    fs.writeFileSync(hostFile, content, { mode });
+    copied++;
+  }
+  return copied;
+}
+
+function guestAgentTree(vm: MicroVM, guestRoot: string): GuestTree {
+  const guest = createGuestAgentClient(vm.vsockPath);
+  return {
+    manifest: () => guest.hashTree(guestRoot),
+    read: relativePath => guest.fetchFile(path.posix.join(guestRoot, relativePath))
+  };
+}
+
+/**
+ * Sync writable mounts back to the host: additions, modifications and
+ * deletions made in the VM are applied unless the host changed the same file
+ * during the run (see mount-sync.ts). Changes to reviewed mounts are held as a
+ * review instead (see mount-review.ts). Returns the conflicts and the review.
+ */
+async function syncFilesBack(
+  vm: MicroVM,
+  mounts: Mount[]
+): Promise<{ conflicts: string[]; review: Review | null }> {
+  const conflicts: string[] = [];
+  const reviewInputs: ReviewInput[] = [];
   for (const mount of mounts) {
     if (mount.readOnly) continue;
+    const base = vm.syncBases.get(mount.guestPath);
+    if (!base) continue; // Host path didn't exist, so nothing was mounted
+    const guest = guestAgentTree(vm, mount.guestPath);
+    if (mount.review) {
+      reviewInputs.push({ hostPath: mount.hostPath, guestPath: mount.guestPath, base, guest });
+      continue;
+    }
     try {
-      execSync(
-        `scp -i ${keyPath} -o StrictHostKeyChecking=no -o BatchMode=yes -r ` +
-        `agent@${ip}:${mount.guestPath}/. ${mount.hostPath}/`,
-        { stdio: 'pipe', timeout: 60000 }
+      const report = await syncMountBack(mount.hostPath, base, guest);
+      console.log(
+        `[FC] Synced ${mount.guestPath} → ${mount.hostPath}: ${report.added.length} added, ` +
+        `${report.modified.length} modified, ${report.deleted.length} deleted, ${report.conflicts.length} conflict(s)`
       );
-      console.log(`[FC] Synced ${mount.guestPath} → ${mount.hostPath}`);
+      for (const conflict of report.conflicts) {
+        const line = formatSyncConflict(mount.hostPath, conflict);
+        console.log(`[FC] Sync conflict: ${line}`);
+        conflicts.push(line);
+      }
     } catch (err) {
       console.log(`[FC] Warning: Failed to sync ${mount.guestPath} back: ${err}`);
     }
   }
+
+  let review: Review | null = null;
+  if (reviewInputs.length > 0) {
+    try {
+      review = await stageReview(vm.groupId, reviewInputs);
+      console.log(review
+        ? `[FC] Changes to ${review.mounts.map(m => m.guestPath).join(', ')} held for review ${review.id}`
+        : '[FC] No changes to reviewed mounts');
+    } catch (err) {
+      // Nothing was applied; the changes are lost with the VM
+      console.log(`[FC] Warning: Failed to stage changes for review: ${err}`);
+    }
+  }
+  return { conflicts, review };
+}
+
+/**
+ * Copy the Claude session state the run produced (transcripts, session index)
+ * back into the group's host .claude directory so the next run can resume it.
+ */
+async function syncSessionBack(vm: MicroVM, claudeAuthDir: string): Promise<void> {
+  try {
+    const guest = createGuestAgentClient(vm.vsockPath);
+    const count = await copyChangedFilesFromGuest(guest, GUEST_CLAUDE_DIR, claudeAuthDir);
+    console.log(`[FC] Synced ${count} session file(s) back to ${claudeAuthDir}`);
+  } catch (err) {
+    console.log(`[FC] Warning: Failed to sync session state back: ${err}`);
+  }
 }
 
-function cleanupVM(vm: MicroVM): void {
+async function cleanupVM(vm: MicroVM): Promise<void> {
   console.log(`[FC] Cleaning up VM ${vm.vmId} (${vm.groupId})`);
 
-  // Kill the Firecracker process
+  // Kill the Firecracker process (a jailed one runs under root's sudo and is
+  // stopped through its cgroup below)
   try {
-    if (vm.process && !vm.process.killed) {
+    if (vm.process && !vm.process.killed && !vm.jail) {
       vm.process.kill('SIGKILL');
     }
   } catch { /* already dead */ }
 
   // Destroy TAP device
-  destroyTapDevice(vm.tapDevice);
+  await destroyTapDevice(vm.tapDevice);
 
-  // Delete temp rootfs
+  if (vm.jail) {
+    await destroyJail(vm.jail);
+  }
+
+  // Appends the Firecracker log to the run's console file
+  vm.console.close();
+  vm.metrics.close();
+
+  // Delete overlay disk and mount images
   try {
-    fs.unlinkSync(vm.rootfsPath);
+    fs.unlinkSync(vm.overlayPath);
   } catch { /* already gone */ }
+  removeMountImages(vm.vmId);
 
-  // Delete socket
+  // Delete API and vsock sockets
   try {
     fs.unlinkSync(vm.socketPath);
   } catch { /* already gone */ }
+  try {
+    fs.unlinkSync(vm.vsockPath);
+  } catch { /* already gone */ }
 
   // Remove from active map
-  activeVMs.delete(vm.groupId);
+  if (activeVMs.get(vm.groupId) === vm) {
+    activeVMs.delete(vm.groupId);
+  }
+
+  // Pool slots keep their lease across refills; the pool releases it on stop
+  if (!vm.pooled) {
+    releaseVm(vm.vmId);
+  }
 
   console.log(`[FC] VM ${vm.vmId} cleaned up`);
 }
 
-// ── Public API ─────────────────────────────────────────────────────────
+async function cleanupPartialVM(lease: VmLease, pooled: boolean): Promise<void> {
+  await destroyTapDevice(lease.tapDevice);
+  try { fs.unlinkSync(overlayPathFor(lease.vmId)); } catch { /* noop */ }
+  try { fs.unlinkSync(`/tmp/nanoclaw-fc-${lease.vmId}.socket`); } catch { /* noop */ }
+  try { fs.unlinkSync(vmmLogPathFor(lease.vmId)); } catch { /* noop */ }
+  try { fs.unlinkSync(vsockPathFor(lease.vmId)); } catch { /* noop */ }
+  removeMountImages(lease.vmId);
+  const jail = jailForVm(lease.vmId);
+  if (jail) {
+    await destroyJail(jail);
+  }
+  // As in cleanupVM, pool slots keep their lease
+  if (!pooled) {
+    releaseVm(lease.vmId);
+  }
+}
 
 /**
- * Run a task inside a Firecracker microVM.
- * Each call boots a fresh VM, executes the task via Claude Code CLI,
- * captures output, syncs files back, and destroys the VM.
+ * Cold boot a VM: TAP, mount drives, overlay disk, Firecracker process, boot, wait for the guest.
+ * Pool VMs get placeholder drive slots instead of mounts. Console output goes
+ * to `consoleLogPath` if given.
+ * Cleans up after itself if any step fails (releasing the lease unless pooled);
+ * the error ends with the last console lines.
  */
-export async function runTask(
+async function bootVM(
+  lease: VmLease,
   groupId: string,
-  task: string,
   mounts: Mount[],
-  claudeAuthDir: string,
-  timeoutMs: number = DEFAULT_TIMEOUT_MS
-): Promise<TaskResult> {
-  const startTime = Date.now();
+  pooled: boolean,
+  resources: ResolvedVmResources,
+  netPolicy: ResolvedNetworkPolicy,
+  image: VmImage,
+  consoleLogPath: string | null
+): Promise<MicroVM> {
+  let vm: MicroVM | null = null;
+  try {
+    const tapDevice = await createTapDevice(lease, netPolicy);
+    const syncBases = new Map<string, SyncManifest>();
+    const mountDrives = pooled
+      ? new Map<Mount, MountDrive>()
+      : await prepareMountDrives(lease.vmId, mounts, syncBases);
+    const drives = pooled
+      ? await preparePlaceholderDrives(lease.vmId)
+      : Array.from(mountDrives.values());
+    const overlayPath = await prepareOverlay(lease, mountDrives, resources.diskSizeMib, netPolicy);
+    const { process: fcProcess, console: vmConsole, socketPath, jail } = await startFirecrackerProcess(lease.vmId, resources);
+    if (consoleLogPath) {
+      vmConsole.attach(consoleLogPath);
+    }
 
-  // Prevent duplicate VMs for the same group
-  if (activeVMs.has(groupId)) {
-    console.log(`[FC] VM already running for group ${groupId}, waiting...`);
-    // Wait for existing VM to finish (poll)
-    while (activeVMs.has(groupId)) {
-      await new Promise(r => setTimeout(r, 1000));
+    vm = {
+      vmId: lease.vmId,
+      groupId,
+      ip: lease.ip,
+      mac: lease.mac,
+      tapDevice,
+      overlayPath,
+      socketPath,
+      vsockPath: vsockPathFor(lease.vmId),
+      process: fcProcess,
+      console: vmConsole,
+      metrics: startMetricsCollector(metricsPathFor(lease.vmId)),
+      image,
+      syncBases,
+      jail,
+      startedAt: Date.now(),
+      pooled
+    };
+
+    await configureAndBootVM(socketPath, lease, overlayPath, drives, resources, netPolicy, image, jail);
+
+    console.log(`[FC] Waiting for guest on VM ${lease.vmId}...`);
+    await waitForGuest(vm);
+    return vm;
+  } catch (err) {
+    if (vm) {
+      const error = withConsoleTail(err, vm.console);
+      await cleanupVM(vm);
+      throw error;
     }
+    await cleanupPartialVM(lease, pooled);
+    throw err;
   }
+}
 
-  const { vmId, ip } = allocateVm(groupId);
-  console.log(`[FC] Starting VM ${vmId} for group ${groupId} (${ip})`);
-
-  let vm: MicroVM | null = null;
+// ── Warm Pool ──────────────────────────────────────────────────────────
 
+/**
+ * Snapshot a running VM's memory and disk so its pool slot can be refilled
+ * without a kernel boot. The VM is paused for the duration and then resumed.
+ */
+async function snapshotVM(vm: MicroVM, snapshotDir: string): Promise<void> {
+  const api = createFirecrackerClient(vm.socketPath);
+  await api.pauseVm();
   try {
-    // Step 1: Create TAP device
-    const tapDevice = createTapDevice(vmId);
-
-    // Step 2: Prepare rootfs (inject credentials, files, network config)
-    const rootfsPath = prepareRootfs(vmId, ip, claudeAuthDir, mounts);
+    if (vm.jail) {
+      // A jailed VMM can only write inside its jail; the files are moved out afterwards
+      await api.createSnapshot({
+        snapshot_type: 'Full',
+        snapshot_path: jailSnapshotPath('vmstate'),
+        mem_file_path: jailSnapshotPath('memory')
+      });
+      await moveOutOfJail(vm.jail, jailSnapshotPath('vmstate'), path.join(snapshotDir, 'vmstate'));
+      await moveOutOfJail(vm.jail, jailSnapshotPath('memory'), path.join(snapshotDir, 'memory'));
+    } else {
+      await api.createSnapshot({
+        snapshot_type: 'Full',
+        snapshot_path: path.join(snapshotDir, 'vmstate'),
+        mem_file_path: path.join(snapshotDir, 'memory')
+      });
+    }
+    // Overlay must match the memory image, so copy it while the VM is still paused.
+    // The base image is read-only and covered by the snapshot fingerprint.
+    await runCommand(`cp --sparse=always ${vm.overlayPath} ${path.join(snapshotDir, 'overlay.ext4')}`);
+  } finally {
+    await api.resumeVm();
+  }
+}
 
-    // Step 3: Start Firecracker process
-    const { process: fcProcess, socketPath } = startFirecrackerProcess(vmId);
+/**
+ * Restore a pool slot's VM from its snapshot. The snapshot references the
+ * slot's TAP device and overlay path, which stay stable because the slot keeps its vmId.
+ */
+async function restoreVM(lease: VmLease, snapshotDir: string): Promise<MicroVM> {
+  const image = getVmImage();
+  let vm: MicroVM | null = null;
+  try {
+    const tapDevice = await createTapDevice(lease, defaultNetworkPolicy());
+    const overlayPath = overlayPathFor(lease.vmId);
+    await runCommand(`cp --sparse=always ${path.join(snapshotDir, 'overlay.ext4')} ${overlayPath}`);
+    // The snapshot's drive config references the placeholder slots, which must exist
+    const drives = await preparePlaceholderDrives(lease.vmId);
+    const { process: fcProcess, console: vmConsole, socketPath, jail } = await startFirecrackerProcess(lease.vmId, resolveVmResources());
 
     vm = {
-      vmId,
-      groupId,
-      ip,
+      vmId: lease.vmId,
+      groupId: '',
+      ip: lease.ip,
+      mac: lease.mac,
       tapDevice,
-      rootfsPath,
+      overlayPath,
       socketPath,
+      vsockPath: vsockPathFor(lease.vmId),
       process: fcProcess,
-      startedAt: startTime
+      console: vmConsole,
+      metrics: startMetricsCollector(metricsPathFor(lease.vmId)),
+      image,
+      syncBases: new Map(),
+      jail,
+      startedAt: Date.now(),
+      pooled: true
     };
-    activeVMs.set(groupId, vm);
 
-    // Step 4: Configure and boot the VM
-    configureAndBootVM(socketPath, vmId, ip, rootfsPath, tapDevice);
+    const api = createFirecrackerClient(socketPath);
+    await api.putLogger({
+      log_path: await vmmPathFor(jail, vmmLogPathFor(lease.vmId), JAIL_VMM_LOG_NAME, 'rw'),
+      level: 'Info'
+    });
+    await api.putMetrics({
+      metrics_path: await vmmPathFor(jail, metricsPathFor(lease.vmId), JAIL_METRICS_NAME, 'rw')
+    });
+
+    // A jailed VMM reopens its drives by the in-jail paths recorded in the snapshot
+    if (jail) {
+      await linkIntoJail(jail, image.rootfsPath, JAIL_ROOTFS_NAME, null);
+      await linkIntoJail(jail, overlayPath, JAIL_OVERLAY_NAME, 'rw');
+      for (const drive of drives) {
+        await linkIntoJail(jail, drive.imagePath, jailNameFor(drive), drive.readOnly ? 'r' : 'rw');
+      }
+    }
+
+    await api.loadSnapshot({
+      snapshot_path: await vmmPathFor(jail, path.join(snapshotDir, 'vmstate'), 'vmstate', 'r'),
+      mem_backend: {
+        backend_type: 'File',
+        backend_path: await vmmPathFor(jail, path.join(snapshotDir, 'memory'), 'memory', 'r')
+      },
+      resume_vm: true
+    });
+    if (jail) {
+      await claimJailSocket(jail, JAIL_VSOCK_SOCKET, 5000);
+    }
+
+    await waitForGuest(vm);
+    return vm;
+  } catch (err) {
+    if (vm) {
+      const error = withConsoleTail(err, vm.console);
+      await cleanupVM(vm);
+      throw error;
+    }
+    await cleanupPartialVM(lease, true);
+    throw err;
+  }
+}
+
+/**
+ * Identity of everything baked into a pool snapshot. A snapshot taken with a
+ * different default image, VM size, subnet, drive layout, jailer setting or
+ * snapshot format must not be restored.
+ */
+function getSnapshotFingerprint(): string {
+  const hash = crypto.createHash('sha256');
+  const image = getVmImage();
+  hash.update(`${image.name}:${image.version}\n`);
+  for (const file of [image.kernelPath, image.rootfsPath]) {
+    const stat = fs.statSync(file);
+    hash.update(`${file}:${stat.size}:${stat.mtimeMs}\n`);
+  }
+  const resources = resolveVmResources();
+  hash.update(`${resources.vcpus}:${resources.memoryMib}:${getVmNetwork().subnet}`);
+  hash.update(`:${POOL_READONLY_MOUNT_SLOTS}:${POOL_WRITABLE_MOUNT_SLOTS}:vsock=${GUEST_CID}:jailer=${FIRECRACKER_JAILER}`);
+  hash.update(`:format=${SNAPSHOT_FORMAT}`);
+  return hash.digest('hex');
+}
+
+/**
+ * Start the warm VM pool (no-op when VM_POOL_SIZE is 0).
+ * Call after verifyFirecrackerSetup().
+ */
+export function startWarmPool(): void {
+  startVmPool<MicroVM>({
+    allocate: () => leaseVm('pool'),
+    release: releaseVm,
+    boot: lease => bootVM(lease, '', [], true, resolveVmResources(), defaultNetworkPolicy(), getVmImage(), null),
+    snapshot: snapshotVM,
+    restore: restoreVM,
+    destroy: cleanupVM,
+    fingerprint: getSnapshotFingerprint
+  });
+}
+
+// ── Public API ─────────────────────────────────────────────────────────
+
+/**
+ * Run a task inside a Firecracker microVM.
+ * Each call takes a warm VM from the pool (or cold boots a fresh one), runs the
+ * agent runner with the given input, captures output, syncs files and session state back,
+ * and destroys the VM. Callers go through the run queue, so a group never has two VMs.
+ */
+export async function runTask(
+  groupId: string,
+  input: ContainerInput,
+  mounts: Mount[],
+  claudeAuthDir: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  resources: ResolvedVmResources = resolveVmResources(),
+  netPolicy: ResolvedNetworkPolicy = defaultNetworkPolicy(),
+  image: VmImage = getVmImage(),
+  onProgress?: (event: AgentProgressEvent) => void
+): Promise<TaskResult> {
+  const startTime = Date.now();
+  const timestamp = new Date(startTime).toISOString().replace(/[:.]/g, '-');
+  const consoleLogPath = path.join(GROUPS_DIR, groupId, 'logs', `firecracker-${timestamp}.console.log`);
+  // Pool VMs are booted with the default image, size, network policy and a fixed set of
+  // drive slots, so custom profiles and runs with more mounts than slots always cold boot
+  let vm: MicroVM | null =
+    isDefaultVmImage(image) && isDefaultVmResources(resources) && isDefaultNetworkPolicy(netPolicy) &&
+    fitsPoolMountSlots(mounts)
+      ? acquirePooledVM<MicroVM>()
+      : null;
+  let bootDuration: number | null = null;
+
+  try {
+    if (vm) {
+      // Warm path: VM is already booted, just push this group's files in
+      vm.groupId = groupId;
+      vm.startedAt = startTime;
+      vm.console.attach(consoleLogPath);
+      activeVMs.set(groupId, vm);
+      console.log(`[FC] Using warm VM ${vm.vmId} for group ${groupId} (${vm.ip})`);
+      // Count only this run's usage, not the pool VM's time idling
+      await createFirecrackerClient(vm.socketPath).putAction('FlushMetrics');
+      vm.metrics.reset();
+      await provisionVM(vm, claudeAuthDir, mounts);
+    } else {
+      // Cold path: TAP, mount drives, overlay, boot, wait for the guest, then credentials
+      const lease = leaseVm(groupId);
+      console.log(`[FC] Starting VM ${lease.vmId} for group ${groupId} (${lease.ip})`);
+      vm = await bootVM(lease, groupId, mounts, false, resources, netPolicy, image, consoleLogPath);
+      vm.startedAt = startTime;
+      activeVMs.set(groupId, vm);
+      await deliverCredentials(vm, claudeAuthDir);
+    }
+    bootDuration = Date.now() - startTime;
+    console.log(`[FC] VM ${vm.vmId} ready in ${bootDuration}ms`);
+
+    // Connect the agent's IPC directory to the host watcher for the duration of the run
+    const ipcBridge = await startIpcBridge(groupId, createGuestAgentClient(vm.vsockPath));
+
+    // Execute the task through the guest
+    console.log(`[FC] Dispatching task to VM ${vm.vmId}`);
+    let stdout: string;
+    let stderr: string;
+    let exitCode: number;
+    let memPeakBytes: number | null;
+    try {
+      ({ stdout, stderr, exitCode, memPeakBytes } = await executeTask(vm, input, timeoutMs, onProgress));
+    } finally {
+      await ipcBridge.stop();
+    }
 
-    // Step 5: Wait for SSH
-    console.log(`[FC] Waiting for SSH on ${ip}...`);
-    waitForSSH(ip);
-    const bootDuration = Date.now() - startTime;
-    console.log(`[FC] VM ${vmId} booted in ${bootDuration}ms`);
+    // Detect changed files
+    const filesChanged = await getChangedFiles(vm);
 
-    // Step 6: Execute the task via SSH
-    console.log(`[FC] Dispatching task to VM ${vmId}`);
-    const { stdout, exitCode } = executeTaskViaSSH(ip, task, timeoutMs);
+    // Sync writable mounts back to host
+    const { conflicts: syncConflicts, review } = await syncFilesBack(vm, mounts);
 
-    // Step 7: Detect changed files
-    const filesChanged = getChangedFiles(ip);
+    // Persist the Claude session so the next run can resume it
+    await syncSessionBack(vm, claudeAuthDir);
 
-    // Step 8: Sync writable mounts back to host
-    syncFilesBack(ip, mounts);
+    const metrics = await collectRunMetrics(vm, bootDuration, memPeakBytes);
 
     const durationMs = Date.now() - startTime;
-    console.log(`[FC] VM ${vmId} task completed (exit=${exitCode}, ${durationMs}ms)`);
+    console.log(`[FC] VM ${vm.vmId} task completed (exit=${exitCode}, ${durationMs}ms)`);
 
     return {
       output: stdout,
+      stderr,
       filesChanged,
+      syncConflicts,
+      review,
+      consoleLog: consoleLogPath,
+      metrics,
       exitCode,
       durationMs
     };
@@ -552,27 +1196,46 @@ export async function runTask(
   } catch (err) {
     const durationMs = Date.now() - startTime;
     const errorMsg = err instanceof Error ? err.message : String(err);
-    console.log(`[FC] VM ${vmId} error: ${errorMsg}`);
+    console.log(`[FC] VM ${vm?.vmId ?? '?'} error: ${errorMsg}`);
 
     return {
       output: `Error: ${errorMsg}`,
+      stderr: '',
       filesChanged: [],
+      syncConflicts: [],
+      review: null,
+      // Absent if the run failed before the VMM started
+      consoleLog: fs.existsSync(consoleLogPath) ? consoleLogPath : null,
+      metrics: vm ? await collectRunMetrics(vm, bootDuration, null) : null,
       exitCode: 1,
       durationMs
     };
 
   } finally {
     if (vm) {
-      cleanupVM(vm);
-    } else {
-      // Cleanup partial state if VM struct wasn't created
-      destroyTapDevice(`tap${vmId}`);
-      try { fs.unlinkSync(`/tmp/nanoclaw-vm-${vmId}.ext4`); } catch { /* noop */ }
-      try { fs.unlinkSync(`/tmp/nanoclaw-fc-${vmId}.socket`); } catch { /* noop */ }
+      await cleanupVM(vm);
+      if (vm.pooled) {
+        releasePooledVM(vm.vmId);
+      }
     }
   }
 }
 
+/**
+ * Flush the VMM's metrics and total the run's usage.
+ */
+async function collectRunMetrics(
+  vm: MicroVM,
+  bootMs: number | null,
+  memPeakBytes: number | null
+): Promise<VmRunMetrics> {
+  try {
+    await createFirecrackerClient(vm.socketPath).putAction('FlushMetrics');
+  } catch { /* VMM gone; count what it wrote before */ }
+  vm.metrics.collect();
+  return { bootMs, ...vm.metrics.totals(), memPeakBytes };
+}
+
 /**
  * Get status of all running VMs.
  */
@@ -593,7 +1256,7 @@ export function getActiveVMs(): VMStatus[] {
 export async function killVM(groupId: string): Promise<void> {
   const vm = activeVMs.get(groupId);
   if (vm) {
-    cleanupVM(vm);
+    await cleanupVM(vm);
   }
 }
 
@@ -601,104 +1264,22 @@ export async function killVM(groupId: string): Promise<void> {
  * Clean up all running VMs (for graceful shutdown).
  */
 export async function cleanupAll(): Promise<void> {
+  await stopVmPool();
   console.log(`[FC] Cleaning up ${activeVMs.size} active VMs...`);
-  for (const vm of activeVMs.values()) {
-    cleanupVM(vm);
-  }
+  await Promise.all(Array.from(activeVMs.values()).map(vm => cleanupVM(vm)));
   console.log('[FC] All VMs cleaned up');
 }
 
-// ── Compatibility Layer ────────────────────────────────────────────────
-// These functions provide the same interface used by index.ts and
-// task-scheduler.ts so the rest of the codebase requires minimal changes.
-
-export interface ContainerInput {
-  prompt: string;
-  sessionId?: string;
-  groupFolder: string;
-  chatJid: string;
-  isMain: boolean;
-  isScheduledTask?: boolean;
-}
-
-export interface ContainerOutput {
-  status: 'success' | 'error';
-  result: string | null;
-  newSessionId?: string;
-  error?: string;
-}
-
-function getHomeDir(): string {
-  const home = process.env.HOME || os.homedir();
-  if (!home) {
-    throw new Error('Unable to determine home directory');
-  }
-  return home;
-}
-
-/**
- * Build the mount list for a Firecracker VM.
- */
-function buildMounts(group: RegisteredGroup, isMain: boolean): Mount[] {
-  const mounts: Mount[] = [];
-  const projectRoot = process.cwd();
-
-  if (isMain) {
-    // Main gets the entire project root
-    mounts.push({
-      hostPath: projectRoot,
-      guestPath: '/mnt/project',
-      readOnly: false
-    });
-  }
-
-  // Group folder
-  const groupDir = path.join(GROUPS_DIR, group.folder);
-  fs.mkdirSync(groupDir, { recursive: true });
-  mounts.push({
-    hostPath: groupDir,
-    guestPath: '/workspace/group',
-    readOnly: false
-  });
-
-  // Global memory (read-only for non-main)
-  if (!isMain) {
-    const globalDir = path.join(GROUPS_DIR, 'global');
-    if (fs.existsSync(globalDir)) {
-      mounts.push({
-        hostPath: globalDir,
-        guestPath: '/workspace/global',
-        readOnly: true
-      });
-    }
-  }
-
-  // Additional mounts validated against allowlist
-  if (group.containerConfig?.additionalMounts) {
-    const validated = validateAdditionalMounts(
-      group.containerConfig.additionalMounts,
-      group.name,
-      isMain
-    );
-    for (const m of validated) {
-      mounts.push({
-        hostPath: m.hostPath,
-        guestPath: m.containerPath,
-        readOnly: m.readonly
-      });
-    }
-  }
-
-  return mounts;
-}
+// ── Sandbox Backend ────────────────────────────────────────────────────
 
 /**
- * Run an agent task in a Firecracker microVM.
- * Compatible interface with the original runContainerAgent.
+ * Run an agent task in a Firecracker microVM, with an optional callback for
+ * the agent's progress while it runs.
  */
-export async function runContainerAgent(
+async function runVmAgent(
   group: RegisteredGroup,
-  input: ContainerInput
+  input: ContainerInput,
+  onProgress?: (event: AgentProgressEvent) => void
 ): Promise<ContainerOutput> {
   const startTime = Date.now();
 
@@ -714,10 +1295,47 @@ export async function runContainerAgent(
 
   const timeout = group.containerConfig?.timeout || CONTAINER_TIMEOUT;
 
+  let resources: ResolvedVmResources;
+  try {
+    resources = resolveVmResources(group.containerConfig?.resources, input.resources);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    logger.error({ group: group.name, error: errorMsg }, 'Invalid VM resources');
+    return { status: 'error', result: null, error: errorMsg };
+  }
+
+  let netPolicy: ResolvedNetworkPolicy;
+  try {
+    netPolicy = await resolveNetworkPolicy(group.containerConfig?.network);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    logger.error({ group: group.name, error: errorMsg }, 'Invalid network policy');
+    return { status: 'error', result: null, error: errorMsg };
+  }
+
+  let image: VmImage;
+  try {
+    image = getVmImage(group.containerConfig?.image);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    logger.error({ group: group.name, error: errorMsg }, 'Unavailable VM image');
+    return { status: 'error', result: null, error: errorMsg };
+  }
+
+  // Secrets travel to the agent runner with the input; anything leaving the run is redacted
+  const secrets = resolveGroupSecrets(group);
+  const redact = (text: string) => redactSecrets(text, secrets);
+  const redactProgress = onProgress && ((event: AgentProgressEvent) =>
+    onProgress(event.type === 'text' ? { ...event, text: redact(event.text) } : event));
+
   logger.info({
     group: group.name,
     mountCount: mounts.length,
-    isMain: input.isMain
+    isMain: input.isMain,
+    resources,
+    network: netPolicy.mode,
+    image: `${image.name} (${image.version})`,
+    secrets: Object.keys(secrets)
   }, 'Spawning Firecracker VM agent');
 
   // Write container log
@@ -727,12 +1345,32 @@ export async function runContainerAgent(
   try {
     const result = await runTask(
       group.folder,
-      input.prompt,
+      {
+        prompt: input.prompt,
+        sessionId: input.sessionId,
+        groupFolder: input.groupFolder,
+        chatJid: input.chatJid,
+        isMain: input.isMain,
+        isScheduledTask: input.isScheduledTask,
+        secrets
+      },
       mounts,
       claudeAuthDir,
-      timeout
+      timeout,
+      resources,
+      netPolicy,
+      image,
+      redactProgress
     );
 
+    const parsed = parseAgentOutput(result);
+    const output: ContainerOutput = {
+      ...parsed,
+      result: parsed.result && redact(parsed.result),
+      ...(parsed.error && { error: redact(parsed.error) }),
+      ...(result.review && { review: result.review })
+    };
+
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const logFile = path.join(logsDir, `firecracker-${timestamp}.log`);
     const logLines = [
@@ -740,52 +1378,73 @@ export async function runContainerAgent(
       `Timestamp: ${new Date().toISOString()}`,
       `Group: ${group.name}`,
       `IsMain: ${input.isMain}`,
+      `Resources: ${resources.vcpus} vCPU, ${resources.memoryMib} MiB` +
+        (resources.diskSizeMib ? `, ${resources.diskSizeMib} MiB disk` : '') +
+        (resources.cpuTemplate ? `, template ${resources.cpuTemplate}` : ''),
+      `Network: ${netPolicy.mode}`,
+      `Image: ${image.name} (${image.version}${image.builtAt ? `, built ${image.builtAt}` : ''})`,
       `Duration: ${result.durationMs}ms`,
       `Exit Code: ${result.exitCode}`,
+      `Status: ${output.status}`,
+      `Session: ${output.newSessionId || 'none'}`,
       `Files Changed: ${result.filesChanged.join(', ') || 'none'}`,
+      `Sync Conflicts: ${result.syncConflicts.length === 0 ? 'none' : ''}`,
+      ...result.syncConflicts.map(conflict => `  ${conflict}`),
+      `Review: ${result.review ? `${result.review.id} (pending)` : 'none'}`,
+      `Console Log: ${result.consoleLog ? path.basename(result.consoleLog) : 'none'}`,
+      '',
+      '=== Metrics ===',
+      ...(result.metrics ? formatRunMetrics(result.metrics) : ['none']),
+      '',
+      '=== Stderr ===',
+      redact(result.stderr).slice(-2000),
       '',
       '=== Output ===',
-      result.output.slice(-2000)
+      redact(result.output).slice(-2000)
     ];
     fs.writeFileSync(logFile, logLines.join('\n'));
 
-    if (result.exitCode !== 0 && !result.output.includes('NANOCLAW_TASK_COMPLETE')) {
+    if (result.metrics) {
+      logRunMetrics({
+        group_folder: group.folder,
+        run_at: new Date().toISOString(),
+        duration_ms: result.durationMs,
+        status: output.status,
+        boot_ms: result.metrics.bootMs,
+        vcpu_exits: result.metrics.vcpuExits,
+        block_read_bytes: result.metrics.blockReadBytes,
+        block_write_bytes: result.metrics.blockWriteBytes,
+        net_rx_bytes: result.metrics.netRxBytes,
+        net_tx_bytes: result.metrics.netTxBytes,
+        mem_peak_bytes: result.metrics.memPeakBytes
+      });
+    }
+
+    if (result.syncConflicts.length > 0) {
+      logger.warn({ group: group.name, conflicts: result.syncConflicts }, 'Files changed on the host during the run were not overwritten');
+    }
+
+    if (output.status === 'error') {
       logger.error({
         group: group.name,
         exitCode: result.exitCode,
-        duration: result.durationMs
+        duration: result.durationMs,
+        error: output.error
       }, 'VM agent error');
-
-      return {
-        status: 'error',
-        result: null,
-        error: `VM exited with code ${result.exitCode}: ${result.output.slice(-200)}`
-      };
-    }
-
-    // Extract the meaningful output (everything before NANOCLAW_TASK_COMPLETE marker)
-    let agentOutput = result.output;
-    const markerIdx = agentOutput.indexOf('NANOCLAW_TASK_COMPLETE');
-    if (markerIdx !== -1) {
-      agentOutput = agentOutput.slice(0, markerIdx).trim();
+      return output;
     }
 
     logger.info({
       group: group.name,
       duration: result.durationMs,
-      filesChanged: result.filesChanged.length
+      filesChanged: result.filesChanged.length,
+      hasResult: !!output.result
     }, 'VM agent completed');
 
-    return {
-      status: 'success',
-      result: agentOutput || null,
-      // Sessions are managed by Claude Code inside the VM via the auth directory;
-      // session ID continuity is handled through the .claude dir on disk
-      newSessionId: input.sessionId
-    };
+    return output;
 
   } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
+    const errorMsg = redact(err instanceof Error ? err.message : String(err));
     logger.error({ group: group.name, error: errorMsg }, 'VM agent spawn error');
 
     return {
@@ -796,54 +1455,29 @@ export async function runContainerAgent(
   }
 }
 
-// ── IPC Helpers ────────────────────────────────────────────────────────
-// These write data to IPC directories for reference on the host.
+export const firecrackerBackend: SandboxBackend = {
+  name: 'firecracker',
 
-export function writeTasksSnapshot(
-  groupFolder: string,
-  isMain: boolean,
-  tasks: Array<{
-    id: string;
-    groupFolder: string;
-    prompt: string;
-    schedule_type: string;
-    schedule_value: string;
-    status: string;
-    next_run: string | null;
-  }>
-): void {
-  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
-  fs.mkdirSync(groupIpcDir, { recursive: true });
+  async prepare() {
+    verifyFirecrackerSetup();
+    startWarmPool();
+    startOrphanReaper();
+  },
 
-  const filteredTasks = isMain
-    ? tasks
-    : tasks.filter(t => t.groupFolder === groupFolder);
+  // Every group setting is honoured, so nothing to refuse
+  validateGroup: () => [],
 
-  const tasksFile = path.join(groupIpcDir, 'current_tasks.json');
-  fs.writeFileSync(tasksFile, JSON.stringify(filteredTasks, null, 2));
-}
+  memoryFor: (group, input) => runMemoryMib(group.containerConfig?.resources, input.resources),
 
-export interface AvailableGroup {
-  jid: string;
-  name: string;
-  lastActivity: string;
-  isRegistered: boolean;
-}
-
-export function writeGroupsSnapshot(
-  groupFolder: string,
-  isMain: boolean,
-  groups: AvailableGroup[],
-  registeredJids: Set<string>
-): void {
-  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
-  fs.mkdirSync(groupIpcDir, { recursive: true });
+  run: runVmAgent,
 
-  const visibleGroups = isMain ? groups : [];
+  status: () => getActiveVMs().map(vm => ({
+    backend: 'firecracker',
+    groupFolder: vm.groupId,
+    id: String(vm.vmId),
+    startedAt: vm.startedAt,
+    runtimeMs: vm.runtimeMs
+  })),
 
-  const groupsFile = path.join(groupIpcDir, 'available_groups.json');
-  fs.writeFileSync(groupsFile, JSON.stringify({
-    groups: visibleGroups,
-    lastSync: new Date().toISOString()
-  }, null, 2));
-}
+  cleanup: cleanupAll
+};
@@ -0,0 +1,177 @@
+/**
+ * Guest Agent Client for NanoClaw
+ *
+ * Talks to the guest agent (container/agent-runner/src/guest-agent.ts) over
+ * Firecracker's vsock device. Firecracker exposes the device on the host as a
+ * Unix socket: the host connects, sends "CONNECT <port>", gets back "OK <id>"
+ * and from then on the stream is connected to the guest's listener. This needs
+ * neither SSH nor a guest network interface.
+ *
+ * Each call uses its own connection and carries one newline-delimited JSON
+ * request; see the guest agent for the protocol.
+ */
+
+import net from 'net';
+
+export const GUEST_AGENT_PORT = 52;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface GuestOutputChunk {
+  stream: 'stdout' | 'stderr';
+  chunk: string;
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  maxResponseBytes?: number;
+  onEvent?: (event: string, data: unknown) => void;
+}
+
+export class GuestAgentError extends Error {
+  constructor(
+    public readonly method: string,
+    message: string,
+    public readonly timedOut = false
+  ) {
+    super(`[FC] Guest agent ${method} failed: ${message}`);
+    this.name = 'GuestAgentError';
+  }
+}
+
+// ── Transport ──────────────────────────────────────────────────────────
+
+function call<T>(
+  udsPath: string,
+  method: string,
+  params: object = {},
+  options: CallOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxResponseBytes = options.maxResponseBytes ?? 64 * 1024 * 1024;
+
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(udsPath);
+    let connected = false;
+    let buffer = '';
+    let received = 0;
+    let settled = false;
+
+    const finish = (err: Error | null, result?: T) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      if (err) reject(err);
+      else resolve(result as T);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new GuestAgentError(method, `timed out after ${timeoutMs}ms`, true));
+    }, timeoutMs);
+
+    socket.setEncoding('utf8');
+    socket.on('connect', () => {
+      socket.write(`CONNECT ${GUEST_AGENT_PORT}\n`);
+    });
+
+    socket.on('data', (chunk: string) => {
+      received += chunk.length;
+      if (received > maxResponseBytes) {
+        finish(new GuestAgentError(method, `response exceeded ${maxResponseBytes} bytes`));
+        return;
+      }
+      buffer += chunk;
+
+      let newline: number;
+      while (!settled && (newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+
+        if (!connected) {
+          // Firecracker's handshake reply
+          if (!line.startsWith('OK ')) {
+            finish(new GuestAgentError(method, `vsock handshake rejected: ${line}`));
+            return;
+          }
+          connected = true;
+          socket.write(JSON.stringify({ id: 1, method, params }) + '\n');
+          continue;
+        }
+
+        let message: { event?: string; data?: unknown; result?: T; error?: { message: string } };
+        try {
+          message = JSON.parse(line);
+        } catch {
+          finish(new GuestAgentError(method, `invalid response line: ${line.slice(0, 200)}`));
+          return;
+        }
+
+        if (message.event) {
+          options.onEvent?.(message.event, message.data);
+        } else if (message.error) {
+          finish(new GuestAgentError(method, message.error.message));
+        } else {
+          finish(null, message.result);
+        }
+      }
+    });
+
+    socket.on('error', err => finish(new GuestAgentError(method, err.message)));
+    socket.on('close', () => finish(new GuestAgentError(method, 'connection closed before a response')));
+  });
+}
+
+// ── Client ─────────────────────────────────────────────────────────────
+
+export type GuestAgentClient = ReturnType<typeof createGuestAgentClient>;
+
+/**
+ * Create a client bound to one VM's vsock Unix socket.
+ */
+export function createGuestAgentClient(udsPath: string) {
+  return {
+    udsPath,
+
+    ping: (timeoutMs = 2000) =>
+      call<{ ok: boolean }>(udsPath, 'ping', {}, { timeoutMs }),
+
+    runTask: (input: string, timeoutMs: number, maxOutputBytes: number, onOutput?: (output: GuestOutputChunk) => void) =>
+      // memPeakBytes is missing from guest agents older than the metrics support
+      call<{ exitCode: number; memPeakBytes?: number }>(udsPath, 'run_task', { input }, {
+        timeoutMs,
+        maxResponseBytes: maxOutputBytes,
+        onEvent: (event, data) => {
+          if (event === 'output') onOutput?.(data as GuestOutputChunk);
+        }
+      }),
+
+    listChangedFiles: (root: string) =>
+      call<{ files: string[] }>(udsPath, 'list_changed_files', { root }, { timeoutMs: 30_000 })
+        .then(r => r.files),
+
+    hashTree: (root: string) =>
+      call<{ files: Record<string, { sha256: string; mode: number }> }>(udsPath, 'hash_tree', { root }, { timeoutMs: 300_000 })
+        .then(r => r.files),
+
+    fetchFile: (filePath: string) =>
+      call<{ content: string; mode: number }>(udsPath, 'fetch_file', { path: filePath }, { timeoutMs: 60_000 })
+        .then(r => ({ content: Buffer.from(r.content, 'base64'), mode: r.mode })),
+
+    writeFile: (filePath: string, content: Buffer | string, mode = 0o644) =>
+      call<{ bytes: number }>(udsPath, 'write_file', {
+        path: filePath,
+        content: Buffer.from(content).toString('base64'),
+        mode
+      }),
+
+    drainDir: (dir: string, suffix: string) =>
+      call<{ files: Array<{ name: string; content: string }> }>(udsPath, 'drain_dir', { dir, suffix })
+        .then(r => r.files.map(f => ({ name: f.name, content: Buffer.from(f.content, 'base64') }))),
+
+    putArchive: (dir: string, archive: Buffer) =>
+      call<{ bytes: number }>(udsPath, 'put_archive', { dir, archive: archive.toString('base64') }, { timeoutMs: 120_000 }),
+
+    mountDrive: (device: string, target: string, readOnly: boolean) =>
+      call<{ ok: boolean }>(udsPath, 'mount_drive', { device, target, readOnly }, { timeoutMs: 30_000 })
+  };
+}
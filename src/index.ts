@@ -2,12 +2,13 @@ import makeWASocket, {
   useMultiFileAuthState,
   DisconnectReason,
   makeCacheableSignalKeyStore,
-  WASocket
+  WAMessage,
+  WAMessageKey
 } from '@whiskeysockets/baileys';
-import pino from 'pino';
 import { exec } from 'child_process';
 import fs from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 
 import {
   ASSISTANT_NAME,
@@ -19,21 +20,40 @@ import {
   IPC_POLL_INTERVAL,
   TIMEZONE
 } from './config.js';
-import { RegisteredGroup, Session, NewMessage } from './types.js';
-import { initDatabase, storeMessage, storeChatMetadata, getNewMessages, getMessagesSince, getAllTasks, getTaskById, updateChatName, getAllChats, getLastGroupSync, setLastGroupSync } from './db.js';
-import { startSchedulerLoop } from './task-scheduler.js';
-import { runContainerAgent, writeTasksSnapshot, writeGroupsSnapshot, AvailableGroup, verifyFirecrackerSetup, cleanupAll } from './firecracker-runner.js';
+import { RegisteredGroup, Session, NewMessage, VmResources } from './types.js';
+import { initDatabase, storeMessage, storeChatMetadata, getMessagesSince, getAllTasks, getTaskById, updateChatName, getAllChats, getLastGroupSync, setLastGroupSync } from './db.js';
+import { SchedulerDependencies, startSchedulerLoop } from './task-scheduler.js';
+import { runContainerAgent, writeTasksSnapshot, writeGroupsSnapshot, AvailableGroup, prepareSandboxBackends, cleanupSandboxes, validateGroupSandbox } from './sandbox.js';
+import { redactSecrets, resolveGroupSecrets, validateSecretGrants } from './secrets.js';
 import { loadJson, saveJson } from './utils.js';
+import { validateVmResources } from './vm-resources.js';
+import { validateNetworkConfig } from './network-policy.js';
+import { validateImageName } from './vm-images.js';
+import { approveReview, getReview, listPendingReviews, rejectReview, Review, summarizeReview, validateReviewMounts } from './mount-review.js';
+import { formatSyncConflict } from './mount-sync.js';
+import { AgentProgressEvent, ProgressSink, resolveProgressMode, startProgressReporter } from './agent-progress.js';
+import { logger } from './logger.js';
 
 const GROUP_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// Handled by the router instead of the agent: "@Andy /reset" (or "/reset" in main)
+const RESET_COMMAND = /^\/reset\s*$/i;
+// Decisions on changes held for review; only honoured in the main group
+const REVIEW_DECISION_COMMAND = /^\/(approve|reject)\s+([0-9a-f]{6})\s*$/i;
+const LIST_REVIEWS_COMMAND = /^\/reviews\s*$/i;
 
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: { target: 'pino-pretty', options: { colorize: true } }
-});
+/**
+ * The parts of the WhatsApp socket the router uses. The end-to-end tests
+ * stand in an in-memory one (test/harness.ts).
+ */
+export interface ChatSocket {
+  sendMessage(jid: string, content: { text: string; edit?: WAMessageKey }): Promise<{ key: WAMessageKey } | undefined>;
+  sendPresenceUpdate(type: 'composing' | 'paused', jid: string): Promise<void>;
+  groupFetchAllParticipating(): Promise<Record<string, { subject?: string }>>;
+}
 
-let sock: WASocket;
-let lastTimestamp = '';
+let sock: ChatSocket;
+// Newest message processed per chat; chats without one start from their first stored message
+let lastChatTimestamp: Record<string, string> = {};
 let sessions: Session = {};
 let registeredGroups: Record<string, RegisteredGroup> = {};
 let lastAgentTimestamp: Record<string, string> = {};
@@ -48,19 +68,52 @@ async function setTyping(jid: string, isTyping: boolean): Promise<void> {
 
 function loadState(): void {
   const statePath = path.join(DATA_DIR, 'router_state.json');
-  const state = loadJson<{ last_timestamp?: string; last_agent_timestamp?: Record<string, string> }>(statePath, {});
-  lastTimestamp = state.last_timestamp || '';
+  const state = loadJson<{
+    last_timestamp?: string;
+    last_chat_timestamp?: Record<string, string>;
+    last_agent_timestamp?: Record<string, string>;
+  }>(statePath, {});
+  lastChatTimestamp = state.last_chat_timestamp || {};
   lastAgentTimestamp = state.last_agent_timestamp || {};
   sessions = loadJson(path.join(DATA_DIR, 'sessions.json'), {});
   registeredGroups = loadJson(path.join(DATA_DIR, 'registered_groups.json'), {});
+  // Older state files have one cursor for all chats; it becomes each chat's own
+  if (state.last_timestamp) {
+    for (const jid of Object.keys(registeredGroups)) {
+      lastChatTimestamp[jid] ??= state.last_timestamp;
+    }
+  }
   logger.info({ groupCount: Object.keys(registeredGroups).length }, 'State loaded');
 }
 
 function saveState(): void {
-  saveJson(path.join(DATA_DIR, 'router_state.json'), { last_timestamp: lastTimestamp, last_agent_timestamp: lastAgentTimestamp });
+  saveJson(path.join(DATA_DIR, 'router_state.json'), {
+    last_chat_timestamp: lastChatTimestamp,
+    last_agent_timestamp: lastAgentTimestamp
+  });
+  saveJson(path.join(DATA_DIR, 'sessions.json'), sessions);
+}
+
+/**
+ * Record the Claude session a group's next run should resume.
+ */
+function setSession(groupFolder: string, sessionId: string): void {
+  sessions[groupFolder] = sessionId;
   saveJson(path.join(DATA_DIR, 'sessions.json'), sessions);
 }
 
+/**
+ * Forget a group's session so its next run starts a fresh conversation.
+ * Transcripts stay in data/sessions/{group}/.claude/ but are no longer resumed.
+ */
+function resetSession(groupFolder: string): boolean {
+  if (!sessions[groupFolder]) return false;
+  delete sessions[groupFolder];
+  saveJson(path.join(DATA_DIR, 'sessions.json'), sessions);
+  logger.info({ groupFolder }, 'Session reset');
+  return true;
+}
+
 function registerGroup(jid: string, group: RegisteredGroup): void {
   registeredGroups[jid] = group;
   saveJson(path.join(DATA_DIR, 'registered_groups.json'), registeredGroups);
@@ -138,6 +191,25 @@ async function processMessage(msg: NewMessage): Promise<void> {
   // Main group responds to all messages; other groups require trigger prefix
   if (!isMainGroup && !TRIGGER_PATTERN.test(content)) return;
 
+  const command = content.replace(TRIGGER_PATTERN, '').trim();
+  if (isMainGroup && LIST_REVIEWS_COMMAND.test(command)) {
+    await listReviews(msg.chat_jid);
+    return;
+  }
+  const reviewDecision = isMainGroup ? command.match(REVIEW_DECISION_COMMAND) : null;
+  if (reviewDecision) {
+    await decideReview(msg.chat_jid, reviewDecision[1].toLowerCase() as 'approve' | 'reject', reviewDecision[2].toLowerCase());
+    return;
+  }
+
+  if (RESET_COMMAND.test(command)) {
+    const hadSession = resetSession(group.folder);
+    // Earlier messages belong to the old conversation; don't replay them into the new one
+    lastAgentTimestamp[msg.chat_jid] = msg.timestamp;
+    await sendMessage(msg.chat_jid, `${ASSISTANT_NAME}: ${hadSession ? 'Session reset, starting fresh.' : 'No session to reset.'}`);
+    return;
+  }
+
   // Get all messages since last agent interaction so the session has full context
   const sinceTimestamp = lastAgentTimestamp[msg.chat_jid] || '';
   const missedMessages = getMessagesSince(msg.chat_jid, sinceTimestamp, ASSISTANT_NAME);
@@ -158,22 +230,126 @@ async function processMessage(msg: NewMessage): Promise<void> {
   logger.info({ group: group.name, messageCount: missedMessages.length }, 'Processing message');
 
   await setTyping(msg.chat_jid, true);
-  const response = await runAgent(group, prompt, msg.chat_jid);
+  const progress = startProgressReporter(resolveProgressMode(group), createProgressSink(msg.chat_jid));
+  let response: string | null;
+  try {
+    response = await runAgent(group, prompt, msg.chat_jid, event => progress.onProgress(event), position => progress.onQueued(position));
+  } finally {
+    await progress.stop();
+  }
   await setTyping(msg.chat_jid, false);
 
   if (response) {
     lastAgentTimestamp[msg.chat_jid] = msg.timestamp;
-    await sendMessage(msg.chat_jid, `${ASSISTANT_NAME}: ${response}`);
+    // In stream mode the final reply usually went out as the last progress message
+    if (!progress.alreadySent(response)) {
+      await sendMessage(msg.chat_jid, `${ASSISTANT_NAME}: ${response}`);
+    }
   }
 }
 
-async function runAgent(group: RegisteredGroup, prompt: string, chatJid: string): Promise<string | null> {
-  const isMain = group.folder === MAIN_GROUP_FOLDER;
-  const sessionId = sessions[group.folder];
+function mainGroupJid(): string | undefined {
+  return Object.keys(registeredGroups).find(jid => registeredGroups[jid].folder === MAIN_GROUP_FOLDER);
+}
 
-  // Update tasks snapshot for container to read (filtered by group)
+function groupJidForFolder(folder: string): string | undefined {
+  return Object.keys(registeredGroups).find(jid => registeredGroups[jid].folder === folder);
+}
+
+/**
+ * Ask the main group to approve a run's held changes, and tell the group the
+ * run came from (if it isn't main) that they are waiting.
+ */
+async function announceReview(review: Review, chatJid: string): Promise<void> {
+  const mainJid = mainGroupJid();
+  const groupName = registeredGroups[chatJid]?.name ?? review.groupFolder;
+  if (!mainJid) {
+    logger.warn({ review: review.id }, 'Changes held for review, but no main group is registered to approve them');
+    return;
+  }
+  await sendMessage(mainJid, `${ASSISTANT_NAME}: ${summarizeReview(review, groupName)}`);
+  if (chatJid !== mainJid) {
+    const mounts = review.mounts.map(m => m.guestPath).join(', ');
+    await sendMessage(chatJid, `${ASSISTANT_NAME}: Changes to ${mounts} are waiting for approval (review ${review.id}).`);
+  }
+}
+
+async function listReviews(chatJid: string): Promise<void> {
+  const pending = listPendingReviews();
+  const lines = pending.map(review => {
+    const groupJid = groupJidForFolder(review.groupFolder);
+    const groupName = groupJid ? registeredGroups[groupJid].name : review.groupFolder;
+    const fileCount = review.mounts.reduce((sum, m) => sum + m.files.length, 0);
+    return `${review.id}: ${groupName}, ${fileCount} file(s), ${review.createdAt}`;
+  });
+  await sendMessage(chatJid, `${ASSISTANT_NAME}: ${lines.length > 0 ? `Pending reviews:\n${lines.join('\n')}` : 'No pending reviews.'}`);
+}
+
+async function decideReview(chatJid: string, decision: 'approve' | 'reject', id: string): Promise<void> {
+  const review = getReview(id);
+  if (!review) {
+    await sendMessage(chatJid, `${ASSISTANT_NAME}: No review ${id}.`);
+    return;
+  }
+  if (review.status !== 'pending') {
+    await sendMessage(chatJid, `${ASSISTANT_NAME}: Review ${id} was already ${review.status}.`);
+    return;
+  }
+
+  const groupJid = groupJidForFolder(review.groupFolder);
+  let reply: string;
+  if (decision === 'reject') {
+    rejectReview(review);
+    reply = `Review ${id} rejected. Its patch is kept in data/reviews/${id}/.`;
+  } else {
+    let reports;
+    try {
+      reports = await approveReview(review);
+    } catch (err) {
+      logger.error({ review: id, err }, 'Failed to apply review');
+      await sendMessage(chatJid, `${ASSISTANT_NAME}: Failed to apply review ${id}: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    const applied = reports.reduce((sum, r) => sum + r.added.length + r.modified.length + r.deleted.length, 0);
+    const conflicts = reports.flatMap((r, i) => r.conflicts.map(c => formatSyncConflict(review.mounts[i].hostPath, c)));
+    reply = `Review ${id} approved: ${applied} change(s) applied.` +
+      (conflicts.length > 0 ? `\nNot applied, changed on the host since the run:\n${conflicts.join('\n')}` : '');
+  }
+
+  await sendMessage(chatJid, `${ASSISTANT_NAME}: ${reply}`);
+  if (groupJid && groupJid !== chatJid) {
+    await sendMessage(groupJid, `${ASSISTANT_NAME}: Review ${id} was ${decision === 'approve' ? 'approved' : 'rejected'}.`);
+  }
+}
+
+/**
+ * Where a run's progress goes: messages and a status message (edited in
+ * place after it is first sent) in the chat that triggered the run.
+ */
+function createProgressSink(jid: string): ProgressSink {
+  let statusKey: WAMessageKey | undefined;
+  return {
+    send: text => sendMessage(jid, `${ASSISTANT_NAME}: ${text}`),
+    async updateStatus(text) {
+      const content = `${ASSISTANT_NAME}: ${text}`;
+      if (statusKey) {
+        await sock.sendMessage(jid, { text: content, edit: statusKey });
+      } else {
+        const sent = await sock.sendMessage(jid, { text: content });
+        statusKey = sent?.key;
+      }
+    },
+    setTyping: isTyping => setTyping(jid, isTyping)
+  };
+}
+
+/**
+ * Write the tasks snapshot a group's agent reads (filtered by group).
+ * The IPC bridge pushes it into a running VM whenever it changes.
+ */
+function refreshTasksSnapshot(groupFolder: string, isMain: boolean): void {
   const tasks = getAllTasks();
-  writeTasksSnapshot(group.folder, isMain, tasks.map(t => ({
+  writeTasksSnapshot(groupFolder, isMain, tasks.map(t => ({
     id: t.id,
     groupFolder: t.group_folder,
     prompt: t.prompt,
@@ -182,6 +358,20 @@ async function runAgent(group: RegisteredGroup, prompt: string, chatJid: string)
     status: t.status,
     next_run: t.next_run
   })));
+}
+
+async function runAgent(
+  group: RegisteredGroup,
+  prompt: string,
+  chatJid: string,
+  onProgress?: (event: AgentProgressEvent) => void,
+  onQueued?: (position: number) => void
+): Promise<string | null> {
+  const isMain = group.folder === MAIN_GROUP_FOLDER;
+  const sessionId = sessions[group.folder];
+
+  // Update tasks snapshot for container to read (filtered by group)
+  refreshTasksSnapshot(group.folder, isMain);
 
   // Update available groups snapshot (main group only can see all groups)
   const availableGroups = getAvailableGroups();
@@ -194,11 +384,14 @@ async function runAgent(group: RegisteredGroup, prompt: string, chatJid: string)
       groupFolder: group.folder,
       chatJid,
       isMain
-    });
+    }, onProgress, onQueued);
 
     if (output.newSessionId) {
-      sessions[group.folder] = output.newSessionId;
-      saveJson(path.join(DATA_DIR, 'sessions.json'), sessions);
+      setSession(group.folder, output.newSessionId);
+    }
+
+    if (output.review) {
+      await announceReview(output.review, chatJid);
     }
 
     if (output.status === 'error') {
@@ -222,88 +415,107 @@ async function sendMessage(jid: string, text: string): Promise<void> {
   }
 }
 
-function startIpcWatcher(): void {
+export const schedulerDependencies: SchedulerDependencies = {
+  sendMessage,
+  registeredGroups: () => registeredGroups,
+  getSessions: () => sessions,
+  setSession,
+  announceReview
+};
+
+/**
+ * One pass of the IPC watcher: handle the message and task files every
+ * group's agent has written since the last pass.
+ */
+export async function processIpcFiles(): Promise<void> {
   const ipcBaseDir = path.join(DATA_DIR, 'ipc');
-  fs.mkdirSync(ipcBaseDir, { recursive: true });
 
-  const processIpcFiles = async () => {
-    // Scan all group IPC directories (identity determined by directory)
-    let groupFolders: string[];
-    try {
-      groupFolders = fs.readdirSync(ipcBaseDir).filter(f => {
-        const stat = fs.statSync(path.join(ipcBaseDir, f));
-        return stat.isDirectory() && f !== 'errors';
-      });
-    } catch (err) {
-      logger.error({ err }, 'Error reading IPC base directory');
-      setTimeout(processIpcFiles, IPC_POLL_INTERVAL);
-      return;
-    }
+  // Scan all group IPC directories (identity determined by directory)
+  let groupFolders: string[];
+  try {
+    groupFolders = fs.readdirSync(ipcBaseDir).filter(f => {
+      const stat = fs.statSync(path.join(ipcBaseDir, f));
+      return stat.isDirectory() && f !== 'errors';
+    });
+  } catch (err) {
+    logger.error({ err }, 'Error reading IPC base directory');
+    return;
+  }
 
-    for (const sourceGroup of groupFolders) {
-      const isMain = sourceGroup === MAIN_GROUP_FOLDER;
-      const messagesDir = path.join(ipcBaseDir, sourceGroup, 'messages');
-      const tasksDir = path.join(ipcBaseDir, sourceGroup, 'tasks');
-
-      // Process messages from this group's IPC directory
-      try {
-        if (fs.existsSync(messagesDir)) {
-          const messageFiles = fs.readdirSync(messagesDir).filter(f => f.endsWith('.json'));
-          for (const file of messageFiles) {
-            const filePath = path.join(messagesDir, file);
-            try {
-              const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-              if (data.type === 'message' && data.chatJid && data.text) {
-                // Authorization: verify this group can send to this chatJid
-                const targetGroup = registeredGroups[data.chatJid];
-                if (isMain || (targetGroup && targetGroup.folder === sourceGroup)) {
-                  await sendMessage(data.chatJid, `${ASSISTANT_NAME}: ${data.text}`);
-                  logger.info({ chatJid: data.chatJid, sourceGroup }, 'IPC message sent');
-                } else {
-                  logger.warn({ chatJid: data.chatJid, sourceGroup }, 'Unauthorized IPC message attempt blocked');
-                }
+  for (const sourceGroup of groupFolders) {
+    const isMain = sourceGroup === MAIN_GROUP_FOLDER;
+    const messagesDir = path.join(ipcBaseDir, sourceGroup, 'messages');
+    const tasksDir = path.join(ipcBaseDir, sourceGroup, 'tasks');
+
+    // Process messages from this group's IPC directory
+    try {
+      if (fs.existsSync(messagesDir)) {
+        const messageFiles = fs.readdirSync(messagesDir).filter(f => f.endsWith('.json'));
+        for (const file of messageFiles) {
+          const filePath = path.join(messagesDir, file);
+          try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            if (data.type === 'message' && data.chatJid && data.text) {
+              // Authorization: verify this group can send to this chatJid
+              const targetGroup = registeredGroups[data.chatJid];
+              if (isMain || (targetGroup && targetGroup.folder === sourceGroup)) {
+                const source = Object.values(registeredGroups).find(g => g.folder === sourceGroup);
+                const text = source ? redactSecrets(data.text, resolveGroupSecrets(source)) : data.text;
+                await sendMessage(data.chatJid, `${ASSISTANT_NAME}: ${text}`);
+                logger.info({ chatJid: data.chatJid, sourceGroup }, 'IPC message sent');
+              } else {
+                logger.warn({ chatJid: data.chatJid, sourceGroup }, 'Unauthorized IPC message attempt blocked');
               }
-              fs.unlinkSync(filePath);
-            } catch (err) {
-              logger.error({ file, sourceGroup, err }, 'Error processing IPC message');
-              const errorDir = path.join(ipcBaseDir, 'errors');
-              fs.mkdirSync(errorDir, { recursive: true });
-              fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
             }
+            fs.unlinkSync(filePath);
+          } catch (err) {
+            logger.error({ file, sourceGroup, err }, 'Error processing IPC message');
+            const errorDir = path.join(ipcBaseDir, 'errors');
+            fs.mkdirSync(errorDir, { recursive: true });
+            fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
           }
         }
-      } catch (err) {
-        logger.error({ err, sourceGroup }, 'Error reading IPC messages directory');
       }
+    } catch (err) {
+      logger.error({ err, sourceGroup }, 'Error reading IPC messages directory');
+    }
 
-      // Process tasks from this group's IPC directory
-      try {
-        if (fs.existsSync(tasksDir)) {
-          const taskFiles = fs.readdirSync(tasksDir).filter(f => f.endsWith('.json'));
-          for (const file of taskFiles) {
-            const filePath = path.join(tasksDir, file);
-            try {
-              const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-              // Pass source group identity to processTaskIpc for authorization
-              await processTaskIpc(data, sourceGroup, isMain);
-              fs.unlinkSync(filePath);
-            } catch (err) {
-              logger.error({ file, sourceGroup, err }, 'Error processing IPC task');
-              const errorDir = path.join(ipcBaseDir, 'errors');
-              fs.mkdirSync(errorDir, { recursive: true });
-              fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
-            }
+    // Process tasks from this group's IPC directory
+    try {
+      if (fs.existsSync(tasksDir)) {
+        const taskFiles = fs.readdirSync(tasksDir).filter(f => f.endsWith('.json'));
+        for (const file of taskFiles) {
+          const filePath = path.join(tasksDir, file);
+          try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            // Pass source group identity to processTaskIpc for authorization
+            await processTaskIpc(data, sourceGroup, isMain);
+            fs.unlinkSync(filePath);
+            // Let an agent that is still running see its own task changes
+            refreshTasksSnapshot(sourceGroup, isMain);
+          } catch (err) {
+            logger.error({ file, sourceGroup, err }, 'Error processing IPC task');
+            const errorDir = path.join(ipcBaseDir, 'errors');
+            fs.mkdirSync(errorDir, { recursive: true });
+            fs.renameSync(filePath, path.join(errorDir, `${sourceGroup}-${file}`));
           }
         }
-      } catch (err) {
-        logger.error({ err, sourceGroup }, 'Error reading IPC tasks directory');
       }
+    } catch (err) {
+      logger.error({ err, sourceGroup }, 'Error reading IPC tasks directory');
     }
+  }
+}
 
-    setTimeout(processIpcFiles, IPC_POLL_INTERVAL);
+function startIpcWatcher(): void {
+  fs.mkdirSync(path.join(DATA_DIR, 'ipc'), { recursive: true });
+
+  const poll = async () => {
+    await processIpcFiles();
+    setTimeout(poll, IPC_POLL_INTERVAL);
   };
 
-  processIpcFiles();
+  poll();
   logger.info('IPC watcher started (per-group namespaces)');
 }
 
@@ -317,11 +529,13 @@ async function processTaskIpc(
     context_mode?: string;
     groupFolder?: string;
     chatJid?: string;
+    resources?: VmResources;
     // For register_group
     jid?: string;
     name?: string;
     folder?: string;
     trigger?: string;
+    sandbox?: RegisteredGroup['sandbox'];
     containerConfig?: RegisteredGroup['containerConfig'];
   },
   sourceGroup: string,  // Verified identity from IPC directory
@@ -378,6 +592,15 @@ async function processTaskIpc(
           nextRun = scheduled.toISOString();
         }
 
+        // Per-task VM override is checked against host maximums now, not at run time
+        if (data.resources) {
+          const resourceErrors = validateVmResources(data.resources);
+          if (resourceErrors.length > 0) {
+            logger.warn({ sourceGroup, errors: resourceErrors }, 'Invalid task resources');
+            break;
+          }
+        }
+
         const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
         const contextMode = (data.context_mode === 'group' || data.context_mode === 'isolated')
           ? data.context_mode
@@ -392,7 +615,8 @@ async function processTaskIpc(
           context_mode: contextMode,
           next_run: nextRun,
           status: 'active',
-          created_at: new Date().toISOString()
+          created_at: new Date().toISOString(),
+          resources: data.resources ? JSON.stringify(data.resources) : null
         });
         logger.info({ taskId, sourceGroup, targetGroup, contextMode }, 'Task created via IPC');
       }
@@ -441,13 +665,24 @@ async function processTaskIpc(
         await syncGroupMetadata(true);
         // Write updated snapshot immediately
         const availableGroups = getAvailableGroups();
-        const { writeGroupsSnapshot: writeGroups } = await import('./firecracker-runner.js');
+        const { writeGroupsSnapshot: writeGroups } = await import('./sandbox.js');
         writeGroups(sourceGroup, true, availableGroups, new Set(Object.keys(registeredGroups)));
       } else {
         logger.warn({ sourceGroup }, 'Unauthorized refresh_groups attempt blocked');
       }
       break;
 
+    case 'reset_session': {
+      // Non-main groups can only reset their own session
+      const targetGroup = data.groupFolder || sourceGroup;
+      if (!isMain && targetGroup !== sourceGroup) {
+        logger.warn({ sourceGroup, targetGroup }, 'Unauthorized reset_session attempt blocked');
+        break;
+      }
+      resetSession(targetGroup);
+      break;
+    }
+
     case 'register_group':
       // Only main group can register new groups
       if (!isMain) {
@@ -455,13 +690,55 @@ async function processTaskIpc(
         break;
       }
       if (data.jid && data.name && data.folder && data.trigger) {
-        registerGroup(data.jid, {
+        const resourceErrors = data.containerConfig?.resources
+          ? validateVmResources(data.containerConfig.resources)
+          : [];
+        if (resourceErrors.length > 0) {
+          logger.warn({ errors: resourceErrors }, 'Invalid register_group request - bad VM resources');
+          break;
+        }
+        const networkErrors = data.containerConfig?.network
+          ? validateNetworkConfig(data.containerConfig.network)
+          : [];
+        if (networkErrors.length > 0) {
+          logger.warn({ errors: networkErrors }, 'Invalid register_group request - bad network config');
+          break;
+        }
+        const secretErrors = data.containerConfig?.secrets !== undefined
+          ? validateSecretGrants(data.containerConfig.secrets)
+          : [];
+        if (secretErrors.length > 0) {
+          logger.warn({ errors: secretErrors }, 'Invalid register_group request - bad secret grants');
+          break;
+        }
+        const imageErrors = data.containerConfig?.image !== undefined
+          ? validateImageName(data.containerConfig.image)
+          : [];
+        if (imageErrors.length > 0) {
+          logger.warn({ errors: imageErrors }, 'Invalid register_group request - bad image');
+          break;
+        }
+        const reviewErrors = data.containerConfig?.review !== undefined
+          ? validateReviewMounts(data.containerConfig.review)
+          : [];
+        if (reviewErrors.length > 0) {
+          logger.warn({ errors: reviewErrors }, 'Invalid register_group request - bad review list');
+          break;
+        }
+        const group: RegisteredGroup = {
           name: data.name,
           folder: data.folder,
           trigger: data.trigger,
           added_at: new Date().toISOString(),
+          ...(data.sandbox !== undefined && { sandbox: data.sandbox }),
           containerConfig: data.containerConfig
-        });
+        };
+        const sandboxErrors = validateGroupSandbox(group);
+        if (sandboxErrors.length > 0) {
+          logger.warn({ errors: sandboxErrors }, 'Invalid register_group request - bad sandbox');
+          break;
+        }
+        registerGroup(data.jid, group);
       } else {
         logger.warn({ data }, 'Invalid register_group request - missing required fields');
       }
@@ -478,14 +755,15 @@ async function connectWhatsApp(): Promise<void> {
 
   const { state, saveCreds } = await useMultiFileAuthState(authDir);
 
-  sock = makeWASocket({
+  const socket = makeWASocket({
     auth: { creds: state.creds, keys: makeCacheableSignalKeyStore(state.keys, logger) },
     printQRInTerminal: false,
     logger,
     browser: ['NanoClaw', 'Chrome', '1.0.0']
   });
+  sock = socket;
 
-  sock.ev.on('connection.update', (update) => {
+  socket.ev.on('connection.update', (update) => {
     const { connection, lastDisconnect, qr } = update;
 
     if (qr) {
@@ -515,86 +793,138 @@ async function connectWhatsApp(): Promise<void> {
       setInterval(() => {
         syncGroupMetadata().catch(err => logger.error({ err }, 'Periodic group sync failed'));
       }, GROUP_SYNC_INTERVAL_MS);
-      startSchedulerLoop({
-        sendMessage,
-        registeredGroups: () => registeredGroups,
-        getSessions: () => sessions
-      });
+      startSchedulerLoop(schedulerDependencies);
       startIpcWatcher();
       startMessageLoop();
     }
   });
 
-  sock.ev.on('creds.update', saveCreds);
+  socket.ev.on('creds.update', saveCreds);
+
+  socket.ev.on('messages.upsert', ({ messages }) => storeIncomingMessages(messages));
+}
 
-  sock.ev.on('messages.upsert', ({ messages }) => {
-    for (const msg of messages) {
-      if (!msg.message) continue;
-      const chatJid = msg.key.remoteJid;
-      if (!chatJid || chatJid === 'status@broadcast') continue;
+/**
+ * Store messages as they arrive from WhatsApp; the message loop picks them up.
+ */
+export function storeIncomingMessages(messages: WAMessage[]): void {
+  for (const msg of messages) {
+    if (!msg.message) continue;
+    const chatJid = msg.key.remoteJid;
+    if (!chatJid || chatJid === 'status@broadcast') continue;
 
-      const timestamp = new Date(Number(msg.messageTimestamp) * 1000).toISOString();
+    const timestamp = new Date(Number(msg.messageTimestamp) * 1000).toISOString();
 
-      // Always store chat metadata for group discovery
-      storeChatMetadata(chatJid, timestamp);
+    // Always store chat metadata for group discovery
+    storeChatMetadata(chatJid, timestamp);
 
-      // Only store full message content for registered groups
-      if (registeredGroups[chatJid]) {
-        storeMessage(msg, chatJid, msg.key.fromMe || false, msg.pushName || undefined);
-      }
+    // Only store full message content for registered groups
+    if (registeredGroups[chatJid]) {
+      storeMessage(msg, chatJid, msg.key.fromMe || false, msg.pushName || undefined);
     }
-  });
+  }
 }
 
-async function startMessageLoop(): Promise<void> {
-  logger.info(`NanoClaw running (trigger: @${ASSISTANT_NAME})`);
+// Chats whose messages are being processed, so a pass doesn't pick them up twice
+const busyChats = new Set<string>();
 
-  while (true) {
+/**
+ * Process a chat's new messages in order, stopping at the first failure so it
+ * is retried on the next pass.
+ */
+async function processChatMessages(jid: string, messages: NewMessage[]): Promise<void> {
+  for (const msg of messages) {
     try {
-      const jids = Object.keys(registeredGroups);
-      const { messages } = getNewMessages(jids, lastTimestamp, ASSISTANT_NAME);
-
-      if (messages.length > 0) logger.info({ count: messages.length }, 'New messages');
-      for (const msg of messages) {
-        try {
-          await processMessage(msg);
-          // Only advance timestamp after successful processing for at-least-once delivery
-          lastTimestamp = msg.timestamp;
-          saveState();
-        } catch (err) {
-          logger.error({ err, msg: msg.id }, 'Error processing message, will retry');
-          // Stop processing this batch - failed message will be retried next loop
-          break;
-        }
-      }
+      await processMessage(msg);
+      // Only advance the chat's cursor after successful processing for at-least-once delivery
+      lastChatTimestamp[jid] = msg.timestamp;
+      saveState();
     } catch (err) {
-      logger.error({ err }, 'Error in message loop');
+      logger.error({ err, msg: msg.id }, 'Error processing message, will retry');
+      // Stop processing this chat - failed message will be retried next loop
+      break;
     }
+  }
+}
+
+/**
+ * One pass of the message loop: start on the new messages of every chat that
+ * isn't busy. Chats are processed concurrently and each chat in order; the run
+ * queue decides which runs start first. Resolves once the chats this pass
+ * started on are done.
+ */
+export async function processNewMessages(): Promise<void> {
+  const byChat = new Map<string, NewMessage[]>();
+  for (const jid of Object.keys(registeredGroups)) {
+    if (busyChats.has(jid)) continue;
+    const messages = getMessagesSince(jid, lastChatTimestamp[jid] ?? '', ASSISTANT_NAME);
+    if (messages.length > 0) byChat.set(jid, messages);
+  }
+
+  const count = Array.from(byChat.values()).reduce((sum, messages) => sum + messages.length, 0);
+  if (count > 0) logger.info({ count, chats: byChat.size }, 'New messages');
+
+  await Promise.all(Array.from(byChat, async ([jid, chatMessages]) => {
+    busyChats.add(jid);
+    try {
+      await processChatMessages(jid, chatMessages);
+    } finally {
+      busyChats.delete(jid);
+    }
+  }));
+}
+
+async function startMessageLoop(): Promise<void> {
+  logger.info(`NanoClaw running (trigger: @${ASSISTANT_NAME})`);
+
+  while (true) {
+    // Not awaited: a long run in one chat must not hold up new messages in the others
+    processNewMessages().catch(err => logger.error({ err }, 'Error in message loop'));
     await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
   }
 }
 
-async function main(): Promise<void> {
-  verifyFirecrackerSetup();
+/**
+ * Open the database, load state and prepare the sandboxes. Nothing runs
+ * until a socket is connected.
+ */
+export async function initRouter(): Promise<void> {
   initDatabase();
   logger.info('Database initialized');
   loadState();
+  await prepareSandboxBackends(Object.values(registeredGroups));
+}
+
+/**
+ * Use an already-connected socket instead of connecting to WhatsApp. The
+ * tests drive the loops themselves with processNewMessages, processIpcFiles
+ * and runDueTasks(schedulerDependencies).
+ */
+export function useSocket(socket: ChatSocket): void {
+  sock = socket;
+}
+
+async function main(): Promise<void> {
+  await initRouter();
   await connectWhatsApp();
 }
 
-// Graceful shutdown: clean up all running VMs
-process.on('SIGINT', async () => {
-  console.log('[NanoClaw] Shutting down, cleaning up VMs...');
-  await cleanupAll();
-  process.exit(0);
-});
-process.on('SIGTERM', async () => {
-  console.log('[NanoClaw] Shutting down, cleaning up VMs...');
-  await cleanupAll();
-  process.exit(0);
-});
-
-main().catch(err => {
-  logger.error({ err }, 'Failed to start NanoClaw');
-  process.exit(1);
-});
+// Only when run as the service; the tests import this module
+if (process.argv[1] && fs.realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  // Graceful shutdown: stop all running sandboxes
+  process.on('SIGINT', async () => {
+    console.log('[NanoClaw] Shutting down, cleaning up sandboxes...');
+    await cleanupSandboxes();
+    process.exit(0);
+  });
+  process.on('SIGTERM', async () => {
+    console.log('[NanoClaw] Shutting down, cleaning up sandboxes...');
+    await cleanupSandboxes();
+    process.exit(0);
+  });
+
+  main().catch(err => {
+    logger.error({ err }, 'Failed to start NanoClaw');
+    process.exit(1);
+  });
+}
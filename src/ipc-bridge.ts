@@ -0,0 +1,113 @@
+/**
+ * Live IPC Bridge for NanoClaw
+ *
+ * The agent's nanoclaw MCP tools talk to the host through files under
+ * /workspace/ipc in the guest. While a run is in progress this bridge keeps
+ * that directory connected to the host's data/ipc/<group>/ over the guest
+ * agent's vsock channel:
+ *
+ * - Snapshots the host writes (current_tasks.json, available_groups.json) are
+ *   pushed into the guest whenever they change.
+ * - Messages and task requests the agent writes are drained from the guest and
+ *   dropped into the host directory the IPC watcher already scans.
+ *
+ * The host directory is chosen from the run's group folder, never from
+ * anything the guest says, so the watcher's per-group authorization holds.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, IPC_POLL_INTERVAL } from './config.js';
+import { GuestAgentClient } from './guest-agent-client.js';
+import { logger } from './logger.js';
+
+const GUEST_IPC_DIR = '/workspace/ipc';
+const SNAPSHOT_FILES = ['current_tasks.json', 'available_groups.json'];
+const OUTBOX_DIRS = ['messages', 'tasks'];
+
+export interface IpcBridge {
+  /** Stop polling after one last drain of the guest's outbox. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start bridging IPC for one run. Resolves once the current snapshots are in
+ * the guest. The caller must stop the bridge before the VM is destroyed so
+ * files written at the end of the run still reach the host.
+ */
+export async function startIpcBridge(groupFolder: string, guest: GuestAgentClient): Promise<IpcBridge> {
+  const hostIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
+  const pushedMtimes = new Map<string, number>();
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  async function pushSnapshots(): Promise<void> {
+    for (const name of SNAPSHOT_FILES) {
+      const hostFile = path.join(hostIpcDir, name);
+      let mtimeMs: number;
+      try {
+        mtimeMs = fs.statSync(hostFile).mtimeMs;
+      } catch {
+        continue;
+      }
+      if (pushedMtimes.get(name) === mtimeMs) continue;
+
+      await guest.writeFile(path.posix.join(GUEST_IPC_DIR, name), fs.readFileSync(hostFile));
+      pushedMtimes.set(name, mtimeMs);
+      logger.debug({ groupFolder, file: name }, 'IPC snapshot pushed to guest');
+    }
+  }
+
+  async function pullOutbox(): Promise<void> {
+    for (const dir of OUTBOX_DIRS) {
+      const files = await guest.drainDir(path.posix.join(GUEST_IPC_DIR, dir), '.json');
+      if (files.length === 0) continue;
+
+      const hostDir = path.join(hostIpcDir, dir);
+      fs.mkdirSync(hostDir, { recursive: true });
+      for (const file of files) {
+        // Same temp-then-rename the in-guest writer uses; the watcher only reads *.json
+        const name = path.basename(file.name);
+        const tempPath = path.join(hostDir, `${name}.tmp`);
+        fs.writeFileSync(tempPath, file.content);
+        fs.renameSync(tempPath, path.join(hostDir, name));
+      }
+      logger.debug({ groupFolder, dir, count: files.length }, 'IPC files forwarded from guest');
+    }
+  }
+
+  async function tick(): Promise<void> {
+    try {
+      await pushSnapshots();
+      await pullOutbox();
+    } catch (err) {
+      logger.warn({ groupFolder, err }, 'IPC bridge poll failed');
+    }
+  }
+
+  function schedule(): void {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      inFlight = tick().finally(schedule);
+    }, IPC_POLL_INTERVAL);
+  }
+
+  // Deliver snapshots before the agent starts looking for them
+  await tick();
+  schedule();
+
+  return {
+    async stop() {
+      if (stopped) return;
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await inFlight;
+      try {
+        await pullOutbox();
+      } catch (err) {
+        logger.warn({ groupFolder, err }, 'Final IPC drain failed');
+      }
+    }
+  };
+}
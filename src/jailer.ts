@@ -0,0 +1,277 @@
+/**
+ * Firecracker Jailer for NanoClaw
+ *
+ * With FIRECRACKER_JAILER=true each VM's Firecracker process is started by the
+ * jailer instead of directly. The VMM then runs:
+ *
+ * - chrooted in its own directory under JAILER_CHROOT_BASE
+ * - as a uid/gid no other VM shares (JAILER_UID_BASE + vmId)
+ * - in its own cgroup v2 with CPU and memory limits sized from the VM
+ * - under Firecracker's seccomp filter (built in, or FIRECRACKER_SECCOMP_FILTER)
+ *
+ * Everything the VMM opens has to exist inside the chroot, so files are
+ * hard-linked in (bind-mounted when they live on another filesystem) and the
+ * jail uid is granted access with an ACL, leaving the files owned by the host
+ * user. API paths are given relative to the chroot. Files the VMM creates (the
+ * API and vsock sockets, snapshots) go in /run and are handed back to the host
+ * user once they exist.
+ */
+
+import { ChildProcess, execSync, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { FIRECRACKER_SECCOMP_FILTER, JAILER_CHROOT_BASE, JAILER_UID_BASE } from './config.js';
+import { runCommand, sleep } from './utils.js';
+
+const JAILER_BIN = '/usr/local/bin/jailer';
+const CGROUP_ROOT = '/sys/fs/cgroup';
+const PARENT_CGROUP = 'nanoclaw';
+const CPU_PERIOD_US = 100_000;
+// Guest RAM is charged to the VM's cgroup together with the VMM itself
+const VMM_MEMORY_OVERHEAD_MIB = 128;
+
+// The only directory in the jail the VMM may write to
+const JAIL_RUN_DIR = '/run';
+
+/** API and vsock socket paths inside a jail */
+export const JAIL_API_SOCKET = `${JAIL_RUN_DIR}/firecracker.socket`;
+export const JAIL_VSOCK_SOCKET = `${JAIL_RUN_DIR}/vsock.sock`;
+
+/**
+ * Where a jailed VMM writes a snapshot file, inside its jail.
+ */
+export function jailSnapshotPath(name: string): string {
+  return `${JAIL_RUN_DIR}/${name}`;
+}
+
+export interface Jail {
+  id: string;
+  /** The chroot on the host; the VMM sees it as / */
+  root: string;
+  uid: number;
+  gid: number;
+  cgroup: string;
+}
+
+function hostUser(): string {
+  return `${process.getuid?.() ?? 0}:${process.getgid?.() ?? 0}`;
+}
+
+/**
+ * The jail a vmId always gets. The jailer puts each chroot under
+ * <chroot base>/<exec file name>/<id>/root.
+ */
+export function jailFor(vmId: number): Jail {
+  const id = `nanoclaw-vm${vmId}`;
+  return {
+    id,
+    root: path.join(JAILER_CHROOT_BASE, 'firecracker', id, 'root'),
+    uid: JAILER_UID_BASE + vmId,
+    gid: JAILER_UID_BASE + vmId,
+    cgroup: path.join(CGROUP_ROOT, PARENT_CGROUP, id)
+  };
+}
+
+/**
+ * vmIds that have a jail directory or cgroup on this host, whether or not
+ * their VM is still running.
+ */
+export function listJailedVmIds(): number[] {
+  const vmIds = new Set<number>();
+  for (const dir of [path.join(JAILER_CHROOT_BASE, 'firecracker'), path.join(CGROUP_ROOT, PARENT_CGROUP)]) {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const match = entry.match(/^nanoclaw-vm(\d+)$/);
+      if (match) vmIds.add(parseInt(match[1], 10));
+    }
+  }
+  return [...vmIds];
+}
+
+/**
+ * Host path of a path inside the jail.
+ */
+export function hostPathInJail(jail: Jail, jailPath: string): string {
+  return path.join(jail.root, jailPath);
+}
+
+/**
+ * Check the host can run jailed VMs and prepare the chroot base and parent
+ * cgroup. Files every VM shares (kernel, base image) must be world-readable,
+ * since each VM runs as a different uid.
+ */
+export function verifyJailerSetup(sharedFiles: string[]): void {
+  if (!fs.existsSync(JAILER_BIN)) {
+    throw new Error(
+      `[FC] FIRECRACKER_JAILER is set but ${JAILER_BIN} was not found. It ships in the Firecracker release tarball.`
+    );
+  }
+  if (!fs.existsSync(path.join(CGROUP_ROOT, 'cgroup.controllers'))) {
+    throw new Error('[FC] The jailer is configured for cgroup v2, but /sys/fs/cgroup is not a cgroup v2 hierarchy');
+  }
+  try {
+    execSync('command -v setfacl', { stdio: 'pipe' });
+  } catch {
+    throw new Error('[FC] setfacl not found; the jailer needs ACLs. Install with: sudo apt install acl');
+  }
+  for (const file of [...sharedFiles, ...(FIRECRACKER_SECCOMP_FILTER ? [FIRECRACKER_SECCOMP_FILTER] : [])]) {
+    if ((fs.statSync(file).mode & 0o004) === 0) {
+      throw new Error(`[FC] ${file} must be world-readable for jailed VMs: sudo chmod o+r ${file}`);
+    }
+  }
+
+  const execDir = path.join(JAILER_CHROOT_BASE, 'firecracker');
+  const parentCgroup = path.join(CGROUP_ROOT, PARENT_CGROUP);
+  execSync(`sudo mkdir -p ${execDir} && sudo chown ${hostUser()} ${execDir}`, { stdio: 'pipe' });
+  execSync(
+    `sudo mkdir -p ${parentCgroup} && ` +
+    `echo "+cpu +memory" | sudo tee ${CGROUP_ROOT}/cgroup.subtree_control ${parentCgroup}/cgroup.subtree_control > /dev/null`,
+    { stdio: 'pipe' }
+  );
+}
+
+/**
+ * Create an empty jail: the chroot, owned by the host user, and a run
+ * directory only the VMM can write.
+ */
+export async function prepareJail(jail: Jail): Promise<void> {
+  await destroyJail(jail);
+  const runDir = hostPathInJail(jail, JAIL_RUN_DIR);
+  fs.mkdirSync(runDir, { recursive: true, mode: 0o755 });
+  await runCommand(`sudo chown ${jail.uid}:${jail.gid} ${runDir}`);
+}
+
+function isMountPoint(target: string): boolean {
+  try {
+    return fs.readFileSync('/proc/mounts', 'utf-8').split('\n').some(line => line.split(' ')[1] === target);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Make a host file visible in the jail at /<name> and return that path.
+ * `access` grants the jail uid read or read-write through an ACL; pass null
+ * for files that are already world-readable. Replaces an earlier file of the same name.
+ */
+export async function linkIntoJail(
+  jail: Jail,
+  hostPath: string,
+  name: string,
+  access: 'r' | 'rw' | null
+): Promise<string> {
+  if (access) {
+    await runCommand(`setfacl -m u:${jail.uid}:${access} ${hostPath}`);
+  }
+
+  const target = hostPathInJail(jail, name);
+  if (isMountPoint(target)) {
+    await runCommand(`sudo umount ${target}`);
+  }
+  fs.rmSync(target, { force: true });
+
+  try {
+    fs.linkSync(hostPath, target);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code !== 'EXDEV' && code !== 'EPERM') throw err;
+    // Different filesystem, or a file protected_hardlinks won't let us link: bind mount it instead
+    fs.writeFileSync(target, '');
+    await runCommand(`sudo mount --bind ${hostPath} ${target}`);
+    if (access !== 'rw') {
+      await runCommand(`sudo mount -o remount,bind,ro ${target}`);
+    }
+  }
+  return `/${name}`;
+}
+
+/**
+ * Start Firecracker through the jailer, with its API socket at JAIL_API_SOCKET.
+ */
+export async function spawnJailedFirecracker(
+  jail: Jail,
+  firecrackerBin: string,
+  vcpus: number,
+  memoryMib: number
+): Promise<ChildProcess> {
+  const firecrackerArgs = ['--api-sock', JAIL_API_SOCKET];
+  if (FIRECRACKER_SECCOMP_FILTER) {
+    firecrackerArgs.push('--seccomp-filter', await linkIntoJail(jail, FIRECRACKER_SECCOMP_FILTER, 'seccomp.bpf', null));
+  }
+
+  const memoryMaxBytes = (memoryMib + VMM_MEMORY_OVERHEAD_MIB) * 1024 * 1024;
+  return spawn('sudo', [
+    JAILER_BIN,
+    '--id', jail.id,
+    '--exec-file', firecrackerBin,
+    '--uid', String(jail.uid),
+    '--gid', String(jail.gid),
+    '--chroot-base-dir', JAILER_CHROOT_BASE,
+    '--cgroup-version', '2',
+    '--parent-cgroup', PARENT_CGROUP,
+    '--cgroup', `cpu.max=${vcpus * CPU_PERIOD_US} ${CPU_PERIOD_US}`,
+    '--cgroup', `memory.max=${memoryMaxBytes}`,
+    '--',
+    ...firecrackerArgs
+  ], {
+    stdio: ['ignore', 'pipe', 'pipe'],
+    detached: true
+  });
+}
+
+/**
+ * Wait for the VMM to create a socket in the jail and give it to the host
+ * user, who can't connect to it otherwise. Returns the socket's host path.
+ */
+export async function claimJailSocket(jail: Jail, jailPath: string, timeoutMs: number): Promise<string> {
+  const socketPath = hostPathInJail(jail, jailPath);
+  const deadline = Date.now() + timeoutMs;
+  while (!fs.existsSync(socketPath)) {
+    if (Date.now() > deadline) {
+      throw new Error(`[FC] Firecracker socket did not appear at ${socketPath}`);
+    }
+    await sleep(100);
+  }
+  await runCommand(`sudo chown ${hostUser()} ${socketPath}`);
+  return socketPath;
+}
+
+/**
+ * Move a file the VMM wrote (a snapshot) out of the jail to a host-owned path.
+ */
+export async function moveOutOfJail(jail: Jail, jailPath: string, hostPath: string): Promise<void> {
+  await runCommand(`sudo mv ${hostPathInJail(jail, jailPath)} ${hostPath}`, { timeout: 120000 });
+  await runCommand(`sudo chown ${hostUser()} ${hostPath}`);
+}
+
+// Kill whatever still runs in the VM's cgroup, release bind mounts, then
+// remove the chroot and the cgroup (which can only go once it is empty)
+function teardownScript(jail: Jail): string {
+  const jailDir = path.dirname(jail.root);
+  return [
+    `[ -e ${jail.cgroup}/cgroup.kill ] && echo 1 > ${jail.cgroup}/cgroup.kill`,
+    `grep -o " ${jailDir}/[^ ]*" /proc/mounts | xargs -r -n1 umount -l`,
+    `rm -rf ${jailDir}`,
+    `for i in 1 2 3 4 5 6 7 8 9 10; do [ ! -d ${jail.cgroup} ] || rmdir ${jail.cgroup} 2>/dev/null && break; sleep 0.2; done`,
+    'true'
+  ].join('; ');
+}
+
+/**
+ * Tear a jail down completely. Safe to call for a jail that doesn't exist.
+ */
+export async function destroyJail(jail: Jail): Promise<void> {
+  await runCommand(`sudo sh -c '${teardownScript(jail)}'`, { timeout: 30000 });
+}
+
+/**
+ * Synchronous destroyJail(), for startup cleanup.
+ */
+export function destroyJailSync(jail: Jail): void {
+  execSync(`sudo sh -c '${teardownScript(jail)}'`, { stdio: 'pipe', timeout: 30000 });
+}
@@ -0,0 +1,277 @@
+/**
+ * Local Agent Runs for NanoClaw
+ *
+ * The docker and process backends both run the agent runner as a child of the
+ * host process (`docker run -i` or `node`): the input goes to its stdin and
+ * its output comes back on stdout. Writable mounts are bind mounts or
+ * symlinks to the host directories, so the agent's changes are already in
+ * place when it exits and there is nothing to copy back.
+ *
+ * This module runs such a child for a backend, streams its progress and
+ * writes the run log, like the Firecracker runner does for VMs.
+ */
+
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { CONTAINER_MAX_OUTPUT_SIZE, CONTAINER_TIMEOUT, DATA_DIR, GROUPS_DIR } from './config.js';
+import { AgentProgressEvent, createProgressParser } from './agent-progress.js';
+import { buildMounts, ContainerInput, ContainerOutput, Mount, parseAgentOutput, SandboxStatus } from './sandbox-backend.js';
+import { redactSecrets, resolveGroupSecrets } from './secrets.js';
+import { RegisteredGroup, SandboxBackendName } from './types.js';
+import { logger } from './logger.js';
+
+/**
+ * What a backend needs to start one run.
+ */
+export interface LocalRunContext {
+  /** Unique per run, for naming containers and the like */
+  runId: string;
+  input: ContainerInput;
+  mounts: Mount[];
+  /** The group's Claude session directory, to appear as ~/.claude */
+  claudeDir: string;
+  /** The group's IPC directory, to appear as /workspace/ipc */
+  ipcDir: string;
+}
+
+export interface AgentCommand {
+  command: string;
+  args: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  /** Sandbox identifier shown in status */
+  id: string;
+  /** Stop the run on timeout or shutdown. Default: SIGKILL the child's process group */
+  stop?: () => void;
+}
+
+interface RunningAgent {
+  backend: SandboxBackendName;
+  groupFolder: string;
+  id: string;
+  startedAt: number;
+  stop: () => void;
+}
+
+interface AgentProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  timedOut: boolean;
+}
+
+// One per group: the run queue never starts two runs for a group at once
+const runningAgents = new Map<string, RunningAgent>();
+
+function appendCapped(current: string, chunk: string): string {
+  const remaining = CONTAINER_MAX_OUTPUT_SIZE - current.length;
+  return remaining > 0 ? current + chunk.slice(0, remaining) : current;
+}
+
+function runAgentProcess(
+  agent: Omit<RunningAgent, 'stop'>,
+  command: AgentCommand,
+  input: ContainerInput,
+  timeoutMs: number,
+  onProgress?: (event: AgentProgressEvent) => void
+): Promise<AgentProcessResult> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command.command, command.args, {
+      cwd: command.cwd,
+      env: command.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true
+    });
+    const stop = command.stop ?? (() => {
+      try {
+        process.kill(-proc.pid!, 'SIGKILL');
+      } catch { /* already exited */ }
+    });
+    runningAgents.set(agent.groupFolder, { ...agent, stop });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    const parseProgress = onProgress ? createProgressParser(onProgress) : null;
+
+    proc.stdout.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      stdout = appendCapped(stdout, text);
+      parseProgress?.(text);
+    });
+    proc.stderr.on('data', (chunk: Buffer) => {
+      stderr = appendCapped(stderr, chunk.toString('utf8'));
+    });
+    proc.stdin.on('error', () => { /* exited before reading its input */ });
+    proc.stdin.end(JSON.stringify(input));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.error({ group: agent.groupFolder, backend: agent.backend }, 'Agent timeout, stopping');
+      stop();
+    }, timeoutMs);
+
+    proc.on('error', err => {
+      clearTimeout(timer);
+      runningAgents.delete(agent.groupFolder);
+      reject(err);
+    });
+    proc.on('close', code => {
+      clearTimeout(timer);
+      runningAgents.delete(agent.groupFolder);
+      resolve({ stdout, stderr, exitCode: code ?? 1, timedOut });
+    });
+  });
+}
+
+/**
+ * Run the agent for a group as a local child process built by `commandFor`.
+ */
+export async function runLocalAgent(
+  backend: SandboxBackendName,
+  group: RegisteredGroup,
+  input: ContainerInput,
+  onProgress: ((event: AgentProgressEvent) => void) | undefined,
+  commandFor: (context: LocalRunContext) => AgentCommand
+): Promise<ContainerOutput> {
+  const startTime = Date.now();
+  const mounts = buildMounts(group, input.isMain);
+
+  const claudeDir = path.join(DATA_DIR, 'sessions', group.folder, '.claude');
+  fs.mkdirSync(claudeDir, { recursive: true });
+  const ipcDir = path.join(DATA_DIR, 'ipc', group.folder);
+  fs.mkdirSync(path.join(ipcDir, 'messages'), { recursive: true });
+  fs.mkdirSync(path.join(ipcDir, 'tasks'), { recursive: true });
+
+  const timeout = group.containerConfig?.timeout || CONTAINER_TIMEOUT;
+
+  // Secrets travel to the agent runner with the input; anything leaving the run is redacted
+  const secrets = resolveGroupSecrets(group);
+  const redact = (text: string) => redactSecrets(text, secrets);
+  const redactProgress = onProgress && ((event: AgentProgressEvent) =>
+    onProgress(event.type === 'text' ? { ...event, text: redact(event.text) } : event));
+
+  logger.info({
+    group: group.name,
+    backend,
+    mountCount: mounts.length,
+    isMain: input.isMain,
+    secrets: Object.keys(secrets)
+  }, 'Spawning agent');
+
+  const logsDir = path.join(GROUPS_DIR, group.folder, 'logs');
+  fs.mkdirSync(logsDir, { recursive: true });
+
+  try {
+    const runInput: ContainerInput = {
+      prompt: input.prompt,
+      sessionId: input.sessionId,
+      groupFolder: input.groupFolder,
+      chatJid: input.chatJid,
+      isMain: input.isMain,
+      isScheduledTask: input.isScheduledTask,
+      secrets
+    };
+    const command = commandFor({
+      runId: startTime.toString(36),
+      input,
+      mounts,
+      claudeDir,
+      ipcDir
+    });
+    const result = await runAgentProcess(
+      { backend, groupFolder: group.folder, id: command.id, startedAt: startTime },
+      command,
+      runInput,
+      timeout,
+      redactProgress
+    );
+    const durationMs = Date.now() - startTime;
+
+    const parsed: ContainerOutput = result.timedOut
+      ? { status: 'error', result: null, error: `Agent timed out after ${timeout}ms` }
+      : parseAgentOutput({ output: result.stdout, stderr: result.stderr, exitCode: result.exitCode });
+    const output: ContainerOutput = {
+      ...parsed,
+      result: parsed.result && redact(parsed.result),
+      ...(parsed.error && { error: redact(parsed.error) })
+    };
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const logFile = path.join(logsDir, `${backend}-${timestamp}.log`);
+    const logLines = [
+      '=== Sandbox Run Log ===',
+      `Timestamp: ${new Date().toISOString()}`,
+      `Group: ${group.name}`,
+      `Backend: ${backend} (${command.id})`,
+      `IsMain: ${input.isMain}`,
+      `Duration: ${durationMs}ms`,
+      `Exit Code: ${result.exitCode}${result.timedOut ? ' (timed out)' : ''}`,
+      `Status: ${output.status}`,
+      `Session: ${output.newSessionId || 'none'}`,
+      '',
+      '=== Stderr ===',
+      redact(result.stderr).slice(-2000),
+      '',
+      '=== Output ===',
+      redact(result.stdout).slice(-2000)
+    ];
+    fs.writeFileSync(logFile, logLines.join('\n'));
+
+    if (output.status === 'error') {
+      logger.error({
+        group: group.name,
+        backend,
+        exitCode: result.exitCode,
+        duration: durationMs,
+        error: output.error
+      }, 'Agent error');
+      return output;
+    }
+
+    logger.info({
+      group: group.name,
+      backend,
+      duration: durationMs,
+      hasResult: !!output.result
+    }, 'Agent completed');
+
+    return output;
+
+  } catch (err) {
+    const errorMsg = redact(err instanceof Error ? err.message : String(err));
+    logger.error({ group: group.name, backend, error: errorMsg }, 'Agent spawn error');
+
+    return {
+      status: 'error',
+      result: null,
+      error: `Sandbox error: ${errorMsg}`
+    };
+  }
+}
+
+/**
+ * Runs of a backend that are in progress.
+ */
+export function localAgentStatus(backend: SandboxBackendName): SandboxStatus[] {
+  const now = Date.now();
+  return Array.from(runningAgents.values())
+    .filter(agent => agent.backend === backend)
+    .map(agent => ({
+      backend,
+      groupFolder: agent.groupFolder,
+      id: agent.id,
+      startedAt: agent.startedAt,
+      runtimeMs: now - agent.startedAt
+    }));
+}
+
+/**
+ * Stop every run of a backend (for graceful shutdown).
+ */
+export function stopLocalAgents(backend: SandboxBackendName): void {
+  for (const agent of runningAgents.values()) {
+    if (agent.backend === backend) agent.stop();
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Logger for NanoClaw
+ *
+ * The one pino instance every module logs through. Each pino-pretty transport
+ * runs in its own worker thread, so modules must not create their own.
+ */
+
+import pino from 'pino';
+
+export const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  transport: { target: 'pino-pretty', options: { colorize: true } }
+});
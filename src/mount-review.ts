@@ -0,0 +1,275 @@
+/**
+ * Change Review for NanoClaw
+ *
+ * Writable mounts listed in a group's containerConfig.review are not synced
+ * back when a run ends. Their changes are held as a review in
+ * data/reviews/<id>/ instead:
+ *
+ *   review.json    status, the mounts and what changed in each
+ *   changes.patch  unified diff of the run's changes against the host
+ *   files/         the VM's version of every added or modified file
+ *
+ * A summary goes to the main group, where an admin replies /approve <id> or
+ * /reject <id>. Approving applies the changes with the same three-way sync as
+ * unreviewed mounts (mount-sync.ts), so host edits made while the review was
+ * pending are not overwritten. Rejected reviews stay on disk for inspection.
+ */
+
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { DATA_DIR } from './config.js';
+import { GuestTree, isSafeSyncPath, sameFileEntry, SyncManifest, SyncReport, syncMountBack } from './mount-sync.js';
+import { loadJson, saveJson } from './utils.js';
+import { logger } from './logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const REVIEWS_DIR = path.join(DATA_DIR, 'reviews');
+const REVIEW_ID_PATTERN = /^[0-9a-f]{6}$/;
+const MAX_DIFF_BYTES = 64 * 1024 * 1024;
+// Files listed per mount in the chat summary; the patch has all of them
+const SUMMARY_FILE_LIMIT = 20;
+
+export interface ReviewedFile {
+  path: string;
+  change: 'added' | 'modified' | 'deleted';
+  insertions: number;
+  deletions: number;
+}
+
+export interface ReviewedMount {
+  hostPath: string;
+  guestPath: string;
+  /** Host files the mount image was built from */
+  base: SyncManifest;
+  /** The VM's files when the run ended */
+  staged: SyncManifest;
+  files: ReviewedFile[];
+}
+
+export interface Review {
+  id: string;
+  groupFolder: string;
+  createdAt: string;
+  status: 'pending' | 'approved' | 'rejected';
+  decidedAt?: string;
+  mounts: ReviewedMount[];
+}
+
+/**
+ * A writable mount whose changes are to be held for review, read from the VM
+ * before it is destroyed.
+ */
+export interface ReviewInput {
+  hostPath: string;
+  guestPath: string;
+  base: SyncManifest;
+  guest: GuestTree;
+}
+
+/**
+ * Check a group's review list. Returns a list of problems, empty if valid.
+ */
+export function validateReviewMounts(review: unknown): string[] {
+  if (!Array.isArray(review)) {
+    return ['review must be a list of guest mount paths'];
+  }
+  return review
+    .filter(guestPath => typeof guestPath !== 'string' || !path.posix.isAbsolute(guestPath))
+    .map(guestPath => `review entry must be an absolute guest path (e.g. /mnt/project), got ${guestPath}`);
+}
+
+function reviewDir(id: string): string {
+  return path.join(REVIEWS_DIR, id);
+}
+
+function stagedFilePath(id: string, mountIndex: number, relativePath: string): string {
+  return path.join(reviewDir(id), 'files', String(mountIndex), ...relativePath.split('/'));
+}
+
+// diff exits 1 when the files differ; binary files get a one-line notice
+async function diffFiles(label: string, oldPath: string, newPath: string): Promise<string> {
+  try {
+    await execFileAsync('diff', ['-u', '--label', `a/${label}`, '--label', `b/${label}`, oldPath, newPath], {
+      maxBuffer: MAX_DIFF_BYTES
+    });
+    return '';
+  } catch (err) {
+    const { code, stdout } = err as { code?: number; stdout?: string };
+    if (code === 1 && stdout !== undefined) return stdout;
+    throw err;
+  }
+}
+
+/**
+ * Claim a fresh review ID by creating its directory. IDs are short, so one
+ * already in use is never reused: mkdir fails on it and another is drawn.
+ */
+function createReviewDir(): string {
+  fs.mkdirSync(REVIEWS_DIR, { recursive: true });
+  for (;;) {
+    const id = crypto.randomBytes(3).toString('hex');
+    try {
+      fs.mkdirSync(reviewDir(id));
+      return id;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+  }
+}
+
+function countDiffLines(diff: string): { insertions: number; deletions: number } {
+  let insertions = 0;
+  let deletions = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) insertions++;
+    else if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+  }
+  return { insertions, deletions };
+}
+
+/**
+ * Copy a run's changes to reviewed mounts out of the VM and record them as a
+ * pending review. Returns null if the run changed nothing in them.
+ */
+export async function stageReview(groupFolder: string, inputs: ReviewInput[]): Promise<Review | null> {
+  const id = createReviewDir();
+  const dir = reviewDir(id);
+  const review: Review = { id, groupFolder, createdAt: new Date().toISOString(), status: 'pending', mounts: [] };
+  const patch: string[] = [];
+
+  try {
+    for (const [mountIndex, input] of inputs.entries()) {
+      const staged = await input.guest.manifest();
+      const files: ReviewedFile[] = [];
+      const paths = [...new Set([...Object.keys(input.base), ...Object.keys(staged)])].filter(isSafeSyncPath).sort();
+
+      for (const relativePath of paths) {
+        const baseEntry = input.base[relativePath];
+        const stagedEntry = staged[relativePath];
+        if (sameFileEntry(baseEntry, stagedEntry)) continue;
+
+        const stagedFile = stagedFilePath(id, mountIndex, relativePath);
+        if (stagedEntry) {
+          const { content, mode } = await input.guest.read(relativePath);
+          fs.mkdirSync(path.dirname(stagedFile), { recursive: true });
+          fs.writeFileSync(stagedFile, content, { mode });
+        }
+
+        const hostFile = path.join(input.hostPath, ...relativePath.split('/'));
+        const label = path.posix.join(input.guestPath, relativePath).replace(/^\//, '');
+        const diff = await diffFiles(
+          label,
+          fs.existsSync(hostFile) ? hostFile : '/dev/null',
+          stagedEntry ? stagedFile : '/dev/null'
+        );
+        patch.push(diff);
+        files.push({
+          path: relativePath,
+          change: !stagedEntry ? 'deleted' : baseEntry ? 'modified' : 'added',
+          ...countDiffLines(diff)
+        });
+      }
+
+      if (files.length > 0) {
+        review.mounts.push({ hostPath: input.hostPath, guestPath: input.guestPath, base: input.base, staged, files });
+      }
+    }
+  } catch (err) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    throw err;
+  }
+
+  if (review.mounts.length === 0) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    return null;
+  }
+
+  fs.writeFileSync(path.join(dir, 'changes.patch'), patch.join(''));
+  saveJson(path.join(dir, 'review.json'), review);
+  logger.info({ review: id, group: groupFolder, files: review.mounts.flatMap(m => m.files).length }, 'Changes held for review');
+  return review;
+}
+
+export function getReview(id: string): Review | null {
+  if (!REVIEW_ID_PATTERN.test(id)) return null;
+  return loadJson<Review | null>(path.join(reviewDir(id), 'review.json'), null);
+}
+
+export function listPendingReviews(): Review[] {
+  let ids: string[];
+  try {
+    ids = fs.readdirSync(REVIEWS_DIR);
+  } catch {
+    return [];
+  }
+  return ids
+    .map(getReview)
+    .filter((review): review is Review => review?.status === 'pending')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+function setStatus(review: Review, status: 'approved' | 'rejected'): void {
+  review.status = status;
+  review.decidedAt = new Date().toISOString();
+  saveJson(path.join(reviewDir(review.id), 'review.json'), review);
+}
+
+/**
+ * Apply a pending review's changes to the host. Files the host changed since
+ * the run are kept, with the run's version written next to them (see mount-sync.ts).
+ * Returns one sync report per mount.
+ */
+export async function approveReview(review: Review): Promise<SyncReport[]> {
+  const reports: SyncReport[] = [];
+  for (const [mountIndex, mount] of review.mounts.entries()) {
+    const stagedTree: GuestTree = {
+      manifest: async () => mount.staged,
+      read: async relativePath => {
+        const stagedFile = stagedFilePath(review.id, mountIndex, relativePath);
+        return { content: fs.readFileSync(stagedFile), mode: mount.staged[relativePath].mode };
+      }
+    };
+    reports.push(await syncMountBack(mount.hostPath, mount.base, stagedTree));
+  }
+  setStatus(review, 'approved');
+  logger.info({ review: review.id, group: review.groupFolder }, 'Review approved and applied');
+  return reports;
+}
+
+/**
+ * Reject a pending review. Its patch and files stay in data/reviews/<id>/.
+ */
+export function rejectReview(review: Review): void {
+  setStatus(review, 'rejected');
+  logger.info({ review: review.id, group: review.groupFolder }, 'Review rejected');
+}
+
+/**
+ * Chat summary of a pending review: files changed per mount with a diffstat,
+ * and how to approve or reject it.
+ */
+export function summarizeReview(review: Review, groupName: string): string {
+  const files = review.mounts.flatMap(mount => mount.files);
+  const insertions = files.reduce((sum, file) => sum + file.insertions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+  const lines = [`Review ${review.id} from ${groupName}: ${files.length} file(s) changed, +${insertions} -${deletions}`];
+
+  for (const mount of review.mounts) {
+    lines.push('', mount.guestPath);
+    for (const file of mount.files.slice(0, SUMMARY_FILE_LIMIT)) {
+      const marker = file.change === 'added' ? 'A' : file.change === 'deleted' ? 'D' : 'M';
+      lines.push(`  ${marker} ${file.path} (+${file.insertions} -${file.deletions})`);
+    }
+    if (mount.files.length > SUMMARY_FILE_LIMIT) {
+      lines.push(`  …and ${mount.files.length - SUMMARY_FILE_LIMIT} more`);
+    }
+  }
+
+  lines.push('', `Patch: ${path.join(reviewDir(review.id), 'changes.patch')}`);
+  lines.push(`Reply /approve ${review.id} or /reject ${review.id}`);
+  return lines.join('\n');
+}
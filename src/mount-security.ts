@@ -9,14 +9,9 @@
 
 import fs from 'fs';
 import path from 'path';
-import pino from 'pino';
 import { MOUNT_ALLOWLIST_PATH } from './config.js';
 import { AdditionalMount, MountAllowlist, AllowedRoot } from './types.js';
-
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: { target: 'pino-pretty', options: { colorize: true } }
-});
+import { logger } from './logger.js';
 
 // Cache the allowlist in memory - only reloads on process restart
 let cachedAllowlist: MountAllowlist | null = null;
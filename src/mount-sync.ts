@@ -0,0 +1,195 @@
+/**
+ * Mount Sync-Back for NanoClaw
+ *
+ * A writable mount is copied into the VM when the run starts and copied back
+ * when it ends, and the host directory stays editable in between. To avoid
+ * overwriting host edits made during the run, a manifest of the host files is
+ * taken when the mount image is built (the base). At sync time the base, the
+ * guest's files and the host's current files are compared per path:
+ *
+ * - unchanged in the guest: left alone, whatever happened on the host
+ * - changed in the guest only: the addition, modification or deletion is applied
+ * - changed on both sides the same way: nothing to do
+ * - changed on both sides differently: a conflict. The host version is kept and
+ *   the guest version is written next to it as <file>.conflict-<timestamp>
+ *
+ * .git and node_modules are never synced, matching the guest agent's change listing.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Must match the guest agent's walk (container/agent-runner/src/guest-agent.ts)
+export const SYNC_EXCLUDED_DIRS = ['.git', 'node_modules'];
+
+export interface FileEntry {
+  sha256: string;
+  mode: number;
+}
+
+/** Regular files under a root: relative POSIX path → content hash and permission bits */
+export type SyncManifest = Record<string, FileEntry>;
+
+/**
+ * Read access to a writable mount inside the VM.
+ */
+export interface GuestTree {
+  manifest(): Promise<SyncManifest>;
+  read(relativePath: string): Promise<{ content: Buffer; mode: number }>;
+}
+
+export interface SyncConflict {
+  path: string;
+  reason: string;
+  /** Where the guest version was written, if it has one */
+  copy: string | null;
+}
+
+export interface SyncReport {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  conflicts: SyncConflict[];
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+async function walkHostTree(root: string, dir: string, manifest: SyncManifest): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (SYNC_EXCLUDED_DIRS.includes(entry.name)) continue;
+      await walkHostTree(root, fullPath, manifest);
+    } else if (entry.isFile()) {
+      try {
+        const stat = await fs.promises.stat(fullPath);
+        manifest[path.relative(root, fullPath).split(path.sep).join('/')] = {
+          sha256: await hashFile(fullPath),
+          mode: stat.mode & 0o777
+        };
+      } catch { /* removed while walking */ }
+    }
+  }
+}
+
+/**
+ * Hash every regular file under a host directory.
+ */
+export async function hashHostTree(root: string): Promise<SyncManifest> {
+  const manifest: SyncManifest = {};
+  await walkHostTree(root, root, manifest);
+  return manifest;
+}
+
+export function sameFileEntry(a: FileEntry | undefined, b: FileEntry | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.sha256 === b.sha256 && a.mode === b.mode;
+}
+
+// The guest is untrusted: only accept paths that stay inside the mount
+export function isSafeSyncPath(relativePath: string): boolean {
+  const normalized = path.posix.normalize(relativePath);
+  return normalized === relativePath &&
+    !path.posix.isAbsolute(relativePath) &&
+    relativePath !== '.' &&
+    relativePath !== '..' &&
+    !relativePath.startsWith('../') &&
+    !relativePath.split('/').some(part => SYNC_EXCLUDED_DIRS.includes(part));
+}
+
+function writeFileAtomic(filePath: string, content: Buffer, mode: number): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.nanoclaw-sync`;
+  fs.writeFileSync(tempPath, content, { mode });
+  fs.chmodSync(tempPath, mode);
+  fs.renameSync(tempPath, filePath);
+}
+
+// Remove directories a deletion left empty, up to (not including) the root
+function pruneEmptyDirs(root: string, dir: string): void {
+  while (dir !== root && dir.startsWith(root + path.sep)) {
+    try {
+      fs.rmdirSync(dir);
+    } catch {
+      return; // Not empty
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+function conflictCopyPath(filePath: string): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+  return `${filePath}.conflict-${timestamp}`;
+}
+
+/**
+ * One line describing a conflict, for logs and chat.
+ */
+export function formatSyncConflict(hostRoot: string, conflict: SyncConflict): string {
+  return `${path.join(hostRoot, conflict.path)}: ${conflict.reason}` +
+    (conflict.copy ? ` (VM version saved as ${conflict.copy})` : '');
+}
+
+/**
+ * Three-way sync of a writable mount from the guest back to the host.
+ * `base` is the host manifest taken when the mount image was built.
+ */
+export async function syncMountBack(hostRoot: string, base: SyncManifest, guest: GuestTree): Promise<SyncReport> {
+  const report: SyncReport = { added: [], modified: [], deleted: [], conflicts: [] };
+  const guestManifest = await guest.manifest();
+  const hostManifest = await hashHostTree(hostRoot);
+
+  const paths = new Set([...Object.keys(base), ...Object.keys(guestManifest)]);
+  for (const relativePath of [...paths].sort()) {
+    if (!isSafeSyncPath(relativePath)) continue;
+    const baseEntry = base[relativePath];
+    const guestEntry = guestManifest[relativePath];
+    const hostEntry = hostManifest[relativePath];
+    if (sameFileEntry(guestEntry, baseEntry) || sameFileEntry(guestEntry, hostEntry)) continue;
+
+    const hostFile = path.join(hostRoot, ...relativePath.split('/'));
+    if (sameFileEntry(hostEntry, baseEntry)) {
+      if (guestEntry) {
+        const { content, mode } = await guest.read(relativePath);
+        writeFileAtomic(hostFile, content, mode);
+        (baseEntry ? report.modified : report.added).push(relativePath);
+      } else {
+        fs.rmSync(hostFile, { force: true });
+        pruneEmptyDirs(hostRoot, path.dirname(hostFile));
+        report.deleted.push(relativePath);
+      }
+      continue;
+    }
+
+    // Both sides changed the file, differently
+    const hostChange = !hostEntry ? 'deleted on the host' : baseEntry ? 'modified on the host' : 'added on the host';
+    if (!guestEntry) {
+      report.conflicts.push({ path: relativePath, reason: `deleted in the VM, ${hostChange}`, copy: null });
+      continue;
+    }
+    const guestChange = baseEntry ? 'modified in the VM' : 'added in the VM';
+    const copy = conflictCopyPath(hostFile);
+    const { content, mode } = await guest.read(relativePath);
+    writeFileAtomic(copy, content, mode);
+    report.conflicts.push({
+      path: relativePath,
+      reason: `${guestChange}, ${hostChange}`,
+      copy: path.relative(hostRoot, copy).split(path.sep).join('/')
+    });
+  }
+
+  return report;
+}
@@ -0,0 +1,257 @@
+/**
+ * Network Egress Policy for NanoClaw
+ *
+ * Each microVM's TAP device gets its own nftables table (bridge family, so
+ * rules match the VM's bridge port rather than a spoofable source address).
+ * Every table enforces the same baseline:
+ *
+ * - frames must carry the VM's leased MAC and IP
+ * - nothing is forwarded between bridge ports, so VMs can't reach each other
+ * - the host (on any of its addresses) and the rest of the VM subnet are
+ *   unreachable; replies to connections the host opened, like SSH, still pass
+ *
+ * On top of that the group's containerConfig.network picks what may leave the
+ * host: everything (full), listed domains and CIDRs (allowlist), or only the
+ * model API (none). Domains are resolved on the host when the VM starts and
+ * pinned in the guest's /etc/hosts, so the guest connects to exactly the
+ * addresses that were allowed.
+ */
+
+import dns from 'dns';
+import os from 'os';
+import { MODEL_API_URL } from './config.js';
+import { runCommand } from './utils.js';
+import { getVmNetwork } from './vm-allocator.js';
+import { VmNetworkConfig } from './types.js';
+import { logger } from './logger.js';
+
+const NETWORK_MODES = ['full', 'allowlist', 'none'];
+const DEFAULT_DNS_SERVERS = ['8.8.8.8'];
+// The agent can't run without the model API
+const MODEL_API_HOSTS = [new URL(MODEL_API_URL).hostname];
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+export interface ResolvedNetworkPolicy {
+  mode: 'full' | 'allowlist' | 'none';
+  dnsServers: string[];
+  allowCidrs: string[];
+  /** Hostname → addresses, written to the guest's /etc/hosts */
+  pinnedHosts: Array<{ name: string; addresses: string[] }>;
+}
+
+function isIpv4(value: string): boolean {
+  const match = value.match(IPV4_PATTERN);
+  return !!match && match.slice(1).every(octet => parseInt(octet, 10) <= 255);
+}
+
+function isIpv4Cidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.split('/');
+  if (rest.length > 0 || !isIpv4(address)) return false;
+  if (prefix === undefined) return true;
+  return /^\d{1,2}$/.test(prefix) && parseInt(prefix, 10) <= 32;
+}
+
+/**
+ * Check a network block. Returns a list of problems, empty if valid.
+ */
+export function validateNetworkConfig(config: VmNetworkConfig): string[] {
+  const errors: string[] = [];
+  const mode = config.mode ?? 'full';
+
+  if (!NETWORK_MODES.includes(mode)) {
+    errors.push(`network mode must be one of ${NETWORK_MODES.join(', ')}, got ${mode}`);
+  }
+
+  if (config.allow !== undefined) {
+    if (mode !== 'allowlist') {
+      errors.push(`network allow entries only apply in allowlist mode, not ${mode}`);
+    } else if (!Array.isArray(config.allow)) {
+      errors.push('network allow must be a list of domains or CIDRs');
+    } else {
+      for (const entry of config.allow) {
+        if (typeof entry !== 'string' || (!isIpv4Cidr(entry) && !DOMAIN_PATTERN.test(entry))) {
+          errors.push(`network allow entry is not a domain or IPv4 CIDR: ${entry}`);
+        }
+      }
+    }
+  }
+
+  if (config.dns !== undefined) {
+    if (!Array.isArray(config.dns) || config.dns.length === 0) {
+      errors.push('network dns must be a non-empty list of IPv4 addresses');
+    } else {
+      for (const server of config.dns) {
+        if (typeof server !== 'string' || !isIpv4(server)) {
+          errors.push(`network dns server is not an IPv4 address: ${server}`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+async function resolveHost(name: string): Promise<string[]> {
+  try {
+    const results = await dns.promises.lookup(name, { all: true, family: 4 });
+    return [...new Set(results.map(r => r.address))];
+  } catch (err) {
+    logger.warn({ host: name, err }, 'Could not resolve allowed host, skipping it');
+    return [];
+  }
+}
+
+/**
+ * Validate a group's network config and resolve its domains to addresses.
+ * Throws if the config is invalid.
+ */
+export async function resolveNetworkPolicy(config?: VmNetworkConfig): Promise<ResolvedNetworkPolicy> {
+  if (config) {
+    const errors = validateNetworkConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid network config: ${errors.join('; ')}`);
+    }
+  }
+
+  const mode = config?.mode ?? 'full';
+  if (mode === 'full') {
+    return { mode, dnsServers: config?.dns ?? DEFAULT_DNS_SERVERS, allowCidrs: [], pinnedHosts: [] };
+  }
+
+  const entries = mode === 'allowlist' ? config?.allow ?? [] : [];
+  const hosts = [...MODEL_API_HOSTS, ...entries.filter(entry => !isIpv4Cidr(entry))];
+  const pinnedHosts: ResolvedNetworkPolicy['pinnedHosts'] = [];
+  for (const name of new Set(hosts.map(h => h.toLowerCase()))) {
+    const addresses = await resolveHost(name);
+    if (addresses.length > 0) pinnedHosts.push({ name, addresses });
+  }
+
+  return {
+    mode,
+    // Pinned hosts resolve without DNS, so 'none' doesn't need (or get) a resolver
+    dnsServers: mode === 'allowlist' ? config?.dns ?? DEFAULT_DNS_SERVERS : [],
+    allowCidrs: entries.filter(isIpv4Cidr),
+    pinnedHosts
+  };
+}
+
+/**
+ * The policy warm pool VMs are booted with: full egress, default resolvers.
+ */
+export function defaultNetworkPolicy(): ResolvedNetworkPolicy {
+  return { mode: 'full', dnsServers: DEFAULT_DNS_SERVERS, allowCidrs: [], pinnedHosts: [] };
+}
+
+/**
+ * True if a run with this policy can use a generic warm pool VM.
+ */
+export function isDefaultNetworkPolicy(policy: ResolvedNetworkPolicy): boolean {
+  return policy.mode === 'full' && policy.dnsServers.join(',') === DEFAULT_DNS_SERVERS.join(',');
+}
+
+function hostAddresses(): string[] {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter(iface => iface?.family === 'IPv4')
+    .map(iface => iface!.address);
+}
+
+/**
+ * Name of the nftables table (bridge family) holding a TAP's rules.
+ */
+export function networkPolicyTable(tap: string): string {
+  return `nanoclaw_${tap}`;
+}
+
+/**
+ * The nftables script that installs a TAP's table: the baseline plus the policy.
+ */
+export function buildRuleset(tap: string, ip: string, mac: string, policy: ResolvedNetworkPolicy): string {
+  const { subnet } = getVmNetwork();
+  const table = networkPolicyTable(tap);
+  const allowed = [...policy.allowCidrs, ...policy.pinnedHosts.flatMap(h => h.addresses)];
+
+  const inputRules = [
+    `iifname != "${tap}" accept`,
+    `ether saddr != ${mac} drop`,
+    `arp saddr ip ${ip} accept`,
+    'ether type arp drop',
+    'ether type != ip drop',
+    `ip saddr != ${ip} drop`,
+    'ct state established,related accept'
+  ];
+  if (policy.dnsServers.length > 0) {
+    const servers = `{ ${policy.dnsServers.join(', ')} }`;
+    inputRules.push(`ip daddr ${servers} udp dport 53 accept`);
+    inputRules.push(`ip daddr ${servers} tcp dport 53 accept`);
+  }
+  inputRules.push(`ip daddr ${subnet} drop`);
+  inputRules.push(`ip daddr { ${hostAddresses().join(', ')} } drop`);
+  if (policy.mode === 'full') {
+    inputRules.push('accept');
+  } else {
+    // One rule per destination: a single set would reject CIDRs that overlap pinned addresses
+    for (const destination of new Set(allowed)) {
+      inputRules.push(`ip daddr ${destination} accept`);
+    }
+  }
+  inputRules.push('drop');
+
+  // Re-creating the table replaces any rules left from an earlier VM on this TAP
+  return [
+    `add table bridge ${table}`,
+    `delete table bridge ${table}`,
+    `table bridge ${table} {`,
+    '  chain input {',
+    '    type filter hook input priority 0; policy accept;',
+    ...inputRules.map(rule => `    ${rule}`),
+    '  }',
+    '  chain forward {',
+    '    type filter hook forward priority 0; policy accept;',
+    `    iifname "${tap}" drop`,
+    `    oifname "${tap}" drop`,
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Install a VM's rules on its TAP. Call before the TAP joins the bridge so the
+ * guest never runs without them.
+ */
+export async function applyNetworkPolicy(
+  tap: string,
+  ip: string,
+  mac: string,
+  policy: ResolvedNetworkPolicy
+): Promise<void> {
+  await runCommand('sudo nft -f -', { input: buildRuleset(tap, ip, mac, policy) });
+  logger.debug({ tap, mode: policy.mode }, 'Network policy applied');
+}
+
+/**
+ * Remove a TAP's rules. Safe to call when none are installed.
+ */
+export async function removeNetworkPolicy(tap: string): Promise<void> {
+  try {
+    await runCommand(`sudo nft delete table bridge ${networkPolicyTable(tap)}`);
+  } catch {
+    // Not installed
+  }
+}
+
+/**
+ * /etc/hosts for the guest, with the policy's pinned hosts.
+ */
+export function buildGuestHosts(policy: ResolvedNetworkPolicy): string {
+  const lines = ['127.0.0.1 localhost nanoclaw-agent', '::1 localhost'];
+  for (const host of policy.pinnedHosts) {
+    for (const address of host.addresses) {
+      lines.push(`${address} ${host.name}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,112 @@
+/**
+ * Process Runner for NanoClaw
+ *
+ * Runs the agent runner directly on the host with node, for machines without
+ * /dev/kvm or a container runtime. There is NO isolation: the agent runs as
+ * the NanoClaw user and can reach anything that user can, read-only mounts
+ * included. Only use it on a trusted development machine.
+ *
+ * Each run gets a workspace in data/workspaces/<folder>/ laid out like the
+ * sandbox's /workspace, with symlinks to the group's directories:
+ *
+ *   group/  ipc/  global/  extra/<name>/  mnt/project/ (main)
+ *
+ * The agent runner finds it through NANOCLAW_WORKSPACE, and the group's
+ * session directory is its HOME's .claude.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, MODEL_API_URL } from './config.js';
+import { AgentCommand, LocalRunContext, localAgentStatus, runLocalAgent, stopLocalAgents } from './local-agent.js';
+import { SandboxBackend } from './sandbox-backend.js';
+import { RegisteredGroup } from './types.js';
+import { logger } from './logger.js';
+
+const AGENT_RUNNER_PATH = path.resolve(process.cwd(), 'container', 'agent-runner', 'dist', 'index.js');
+const WORKSPACES_DIR = path.join(DATA_DIR, 'workspaces');
+const SANDBOX_WORKSPACE = '/workspace';
+
+// Where a sandbox path lives in the run's workspace: /workspace/x → <workspace>/x, /mnt/x → <workspace>/mnt/x
+function workspacePathFor(workspace: string, guestPath: string): string {
+  const relative = guestPath.startsWith(`${SANDBOX_WORKSPACE}/`)
+    ? path.posix.relative(SANDBOX_WORKSPACE, guestPath)
+    : guestPath.replace(/^\/+/, '');
+  return path.join(workspace, ...relative.split('/'));
+}
+
+function prepareWorkspace(group: RegisteredGroup, context: LocalRunContext): string {
+  const workspace = path.join(WORKSPACES_DIR, group.folder);
+  // Only symlinks live here, so this never touches the group's files
+  fs.rmSync(workspace, { recursive: true, force: true });
+  fs.mkdirSync(workspace, { recursive: true });
+
+  const links = [
+    ...context.mounts.map(mount => ({ target: mount.hostPath, guestPath: mount.guestPath })),
+    { target: context.ipcDir, guestPath: `${SANDBOX_WORKSPACE}/ipc` }
+  ];
+  for (const { target, guestPath } of links) {
+    const link = workspacePathFor(workspace, guestPath);
+    fs.mkdirSync(path.dirname(link), { recursive: true });
+    fs.symlinkSync(target, link);
+  }
+  return workspace;
+}
+
+function processCommand(group: RegisteredGroup, context: LocalRunContext): AgentCommand {
+  const workspace = prepareWorkspace(group, context);
+  return {
+    command: process.execPath,
+    args: [AGENT_RUNNER_PATH],
+    cwd: workspace,
+    // Not the host's environment: the agent only gets its granted secrets and
+    // model credentials, through the input
+    env: {
+      PATH: process.env.PATH,
+      LANG: process.env.LANG,
+      TZ: process.env.TZ,
+      HOME: path.dirname(context.claudeDir),
+      ANTHROPIC_BASE_URL: MODEL_API_URL,
+      NANOCLAW_WORKSPACE: workspace
+    },
+    id: `run-${context.runId}`
+  };
+}
+
+export const processBackend: SandboxBackend = {
+  name: 'process',
+
+  async prepare() {
+    if (!fs.existsSync(AGENT_RUNNER_PATH)) {
+      throw new Error(`[process] Agent runner not built at ${AGENT_RUNNER_PATH}. Run: npm --prefix container/agent-runner run build`);
+    }
+    logger.warn('Process backend runs agents directly on the host, without any isolation');
+  },
+
+  validateGroup(group) {
+    const problems: string[] = [];
+    const config = group.containerConfig ?? {};
+    if (config.image !== undefined) {
+      problems.push('image selects a VM image, which the process backend has no use for');
+    }
+    if (config.network?.mode && config.network.mode !== 'full') {
+      problems.push(`network mode "${config.network.mode}" needs the firecracker backend`);
+    }
+    if (config.review?.length) {
+      problems.push('review needs the firecracker backend; the process backend writes to mounts directly');
+    }
+    return problems;
+  },
+
+  // Nothing limits the agent's memory
+  memoryFor: () => 0,
+
+  run: (group, input, onProgress) =>
+    runLocalAgent('process', group, input, onProgress, context => processCommand(group, context)),
+
+  status: () => localAgentStatus('process'),
+
+  async cleanup() {
+    stopLocalAgents('process');
+  }
+};
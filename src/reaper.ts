@@ -0,0 +1,213 @@
+/**
+ * Orphan Reaper for NanoClaw
+ *
+ * A host process that crashes or is SIGKILLed never runs cleanupAll, leaving
+ * behind Firecracker processes (spawned detached, so they outlive it), TAP
+ * devices and their nftables tables, jails, loop mounts and images and sockets
+ * in /tmp. Everything a VM creates is named after its vmId, so anything whose
+ * vmId no live lease accounts for is an orphan.
+ *
+ * The reaper runs once during startup checks and then every ORPHAN_REAP_INTERVAL.
+ */
+
+import { execSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { ORPHAN_REAP_INTERVAL } from './config.js';
+import { destroyJailSync, jailFor, listJailedVmIds } from './jailer.js';
+import { networkPolicyTable } from './network-policy.js';
+import { getLeases, reclaimStaleLeases } from './vm-allocator.js';
+import { logger } from './logger.js';
+
+const TEMP_DIR = '/tmp';
+// Overlays, mount images (and their build/mount paths), sockets, Firecracker logs, overlay mount
+// points and SSH key directories; nanoclaw-vm-N is the per-VM rootfs copy from
+// before the shared base image
+const TEMP_ENTRY_PATTERN = /^nanoclaw-(?:overlay|drive|fc|vsock|mount|ssh|vm)-(\d+)(?:[-.]|$)/;
+const TAP_PATTERN = /^tap(\d+)$/;
+
+export interface ReapReport {
+  processes: number[];
+  jails: number[];
+  mounts: string[];
+  taps: string[];
+  files: string[];
+}
+
+/**
+ * What the host has that a VM may have left: Firecracker processes started
+ * directly (with their API socket path), jailed vmIds, mount targets, TAP
+ * devices and entries of /tmp (by name).
+ */
+export interface VmLeftovers {
+  processes: Array<{ pid: number; socketPath: string }>;
+  jails: number[];
+  mounts: string[];
+  taps: string[];
+  files: string[];
+}
+
+function tempEntryVmId(name: string): number | null {
+  const match = name.match(TEMP_ENTRY_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// Only paths directly in /tmp are ours; the same names elsewhere belong to someone else
+function tempPathVmId(target: string): number | null {
+  return path.dirname(target) === TEMP_DIR ? tempEntryVmId(path.basename(target)) : null;
+}
+
+/**
+ * Firecracker processes started directly (not jailed), with their API socket path.
+ */
+function findFirecrackerProcesses(): VmLeftovers['processes'] {
+  const found: VmLeftovers['processes'] = [];
+  for (const entry of fs.readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+    let argv: string[];
+    try {
+      argv = fs.readFileSync(`/proc/${entry}/cmdline`, 'utf-8').split('\0');
+    } catch {
+      continue; // Exited while we looked
+    }
+    if (path.basename(argv[0]) !== 'firecracker') continue;
+    const socketArg = argv.indexOf('--api-sock');
+    const socketPath = socketArg === -1 ? '' : argv[socketArg + 1] ?? '';
+    found.push({ pid: parseInt(entry, 10), socketPath });
+  }
+  return found;
+}
+
+function killProcess(pid: number): void {
+  try {
+    process.kill(pid, 'SIGKILL');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EPERM') {
+      execSync(`sudo kill -9 ${pid}`, { stdio: 'pipe' });
+    }
+    // ESRCH: already gone
+  }
+}
+
+function listTapDevices(): string[] {
+  try {
+    return execSync('ip tuntap show', { stdio: 'pipe' }).toString()
+      .split('\n')
+      .map(line => line.split(':')[0])
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+function listMounts(): string[] {
+  try {
+    return fs.readFileSync('/proc/mounts', 'utf-8')
+      .split('\n')
+      .map(line => line.split(' ')[1])
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The leftovers whose vmId no live lease accounts for. Anything not named
+ * after a vmId the way NanoClaw names it is not ours, and never an orphan.
+ */
+export function findOrphans(leftovers: VmLeftovers, liveVmIds: Set<number>): VmLeftovers {
+  const isOrphan = (vmId: number | null) => vmId !== null && !liveVmIds.has(vmId);
+  return {
+    processes: leftovers.processes.filter(p => isOrphan(tempPathVmId(p.socketPath))),
+    jails: leftovers.jails.filter(isOrphan),
+    mounts: leftovers.mounts.filter(target => isOrphan(tempPathVmId(target))),
+    taps: leftovers.taps.filter(tap => {
+      const match = tap.match(TAP_PATTERN);
+      return isOrphan(match ? parseInt(match[1], 10) : null);
+    }),
+    files: leftovers.files.filter(name => isOrphan(tempEntryVmId(name)))
+  };
+}
+
+/**
+ * Tear down everything left by VMs that no live lease accounts for, and log it.
+ * Leases of processes that are no longer running are reclaimed first.
+ */
+export function reapOrphans(): ReapReport {
+  reclaimStaleLeases();
+  const orphans = findOrphans({
+    processes: findFirecrackerProcesses(),
+    jails: listJailedVmIds(),
+    mounts: listMounts(),
+    taps: listTapDevices(),
+    files: fs.readdirSync(TEMP_DIR)
+  }, new Set(getLeases().map(lease => lease.vmId)));
+  const report: ReapReport = { processes: [], jails: [], mounts: [], taps: [], files: [] };
+
+  // Stop the VMMs first, so nothing holds the devices and files removed below
+  for (const { pid } of orphans.processes) {
+    killProcess(pid);
+    report.processes.push(pid);
+  }
+
+  for (const vmId of orphans.jails) {
+    try {
+      destroyJailSync(jailFor(vmId));
+      report.jails.push(vmId);
+    } catch (err) {
+      logger.warn({ vmId, err }, 'Failed to remove orphaned jail');
+    }
+  }
+
+  for (const target of orphans.mounts) {
+    try {
+      execSync(`sudo umount -l ${target}`, { stdio: 'pipe' });
+      report.mounts.push(target);
+    } catch (err) {
+      logger.warn({ target, err }, 'Failed to unmount orphaned mount');
+    }
+  }
+
+  for (const tap of orphans.taps) {
+    try {
+      execSync(`sudo nft delete table bridge ${networkPolicyTable(tap)}`, { stdio: 'pipe' });
+    } catch { /* never applied */ }
+    try {
+      execSync(`sudo ip link delete ${tap}`, { stdio: 'pipe' });
+      report.taps.push(tap);
+    } catch (err) {
+      logger.warn({ tap, err }, 'Failed to delete orphaned TAP device');
+    }
+  }
+
+  for (const name of orphans.files) {
+    const file = path.join(TEMP_DIR, name);
+    try {
+      fs.rmSync(file, { recursive: true, force: true });
+      report.files.push(file);
+    } catch (err) {
+      logger.warn({ file, err }, 'Failed to remove orphaned file');
+    }
+  }
+
+  const total = Object.values(report).reduce((sum, items) => sum + items.length, 0);
+  if (total > 0) {
+    logger.warn(report, 'Reaped orphaned VM resources');
+  }
+  return report;
+}
+
+/**
+ * Re-run the reaper every ORPHAN_REAP_INTERVAL (no-op when 0).
+ * Call after verifyFirecrackerSetup(), which runs the first pass.
+ */
+export function startOrphanReaper(): void {
+  if (ORPHAN_REAP_INTERVAL <= 0) return;
+  setInterval(() => {
+    try {
+      reapOrphans();
+    } catch (err) {
+      logger.error({ err }, 'Orphan reaper failed');
+    }
+  }, ORPHAN_REAP_INTERVAL).unref();
+}
@@ -0,0 +1,41 @@
+/**
+ * Session Reset Script
+ *
+ * Makes a group's next run start a fresh Claude conversation. The request is
+ * dropped into the group's IPC directory so a running NanoClaw picks it up
+ * (or handles it on its next start) instead of racing its in-memory state.
+ *
+ * Usage: npm run reset-session -- <group-folder>
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from './config.js';
+import { RegisteredGroup } from './types.js';
+import { loadJson } from './utils.js';
+
+function main(): void {
+  const groupFolder = process.argv[2];
+  if (!groupFolder) {
+    console.error('Usage: npm run reset-session -- <group-folder>');
+    process.exit(1);
+  }
+
+  const groups = loadJson<Record<string, RegisteredGroup>>(path.join(DATA_DIR, 'registered_groups.json'), {});
+  if (!Object.values(groups).some(g => g.folder === groupFolder)) {
+    console.error(`No registered group with folder "${groupFolder}"`);
+    process.exit(1);
+  }
+
+  const tasksDir = path.join(DATA_DIR, 'ipc', groupFolder, 'tasks');
+  fs.mkdirSync(tasksDir, { recursive: true });
+  const filename = `${Date.now()}-reset-session.json`;
+  const tempPath = path.join(tasksDir, `${filename}.tmp`);
+  fs.writeFileSync(tempPath, JSON.stringify({ type: 'reset_session', groupFolder }));
+  fs.renameSync(tempPath, path.join(tasksDir, filename));
+
+  console.log(`✓ Session reset requested for ${groupFolder}`);
+  console.log('  Takes effect once NanoClaw processes its IPC queue (immediately if running).');
+}
+
+main();
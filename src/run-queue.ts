@@ -0,0 +1,183 @@
+/**
+ * Run Queue for NanoClaw
+ *
+ * Every agent run, whatever its backend, waits here for a slot before its
+ * sandbox starts. A run is admitted when:
+ *
+ * - fewer than MAX_CONCURRENT_RUNS runs are active,
+ * - its group has no run active (runs for one group never overlap),
+ * - the host has the run's memory plus RUN_MIN_FREE_MEMORY_MIB free, not
+ *   counting memory promised to runs that are still starting, and
+ * - the 1-minute load average per CPU is below RUN_MAX_LOAD.
+ *
+ * Waiting runs go in priority order (messages ahead of scheduled tasks), then
+ * to the group that started a run least recently, then first come first
+ * served, so a group with a backlog can't hold the others up. Only the first
+ * run in that order is considered: a large run is not overtaken by smaller
+ * ones until the host has room for it. When nothing is active the first run
+ * always starts, so a busy host slows runs down but can't stop them.
+ */
+
+import os from 'os';
+import { MAX_CONCURRENT_RUNS, RUN_MAX_LOAD, RUN_MIN_FREE_MEMORY_MIB } from './config.js';
+import { logger } from './logger.js';
+
+// Until then a new run's memory isn't in use yet, so it is held back from free memory
+const STARTUP_RESERVATION_MS = 30_000;
+// How often runs held back by host load or memory are reconsidered
+const ADMISSION_RETRY_INTERVAL_MS = 5_000;
+
+const PRIORITY_ORDER: Record<RunPriority, number> = { interactive: 0, scheduled: 1 };
+
+/** Messages from a chat run ahead of scheduled tasks */
+export type RunPriority = 'interactive' | 'scheduled';
+
+export interface RunRequest {
+  groupFolder: string;
+  priority: RunPriority;
+  /** Host memory the run's sandbox may use; 0 if it isn't limited */
+  memoryMib: number;
+  /** Called while the run waits, with its position (1 = next), whenever that changes */
+  onQueued?: (position: number) => void;
+}
+
+export interface QueuedRunStatus {
+  groupFolder: string;
+  priority: RunPriority;
+  position: number;
+  waitingMs: number;
+}
+
+interface WaitingRun {
+  request: RunRequest;
+  seq: number;
+  queuedAt: number;
+  position: number;
+  admit: (release: () => void) => void;
+}
+
+interface ActiveRun {
+  groupFolder: string;
+  memoryMib: number;
+  startedAt: number;
+}
+
+const waiting: WaitingRun[] = [];
+const active = new Set<ActiveRun>();
+// Which start each group's latest run was, for fairness between groups
+const lastStart = new Map<string, number>();
+let startCount = 0;
+let nextSeq = 0;
+let retryTimer: NodeJS.Timeout | null = null;
+let lastRefusal: string | null = null;
+
+function compareWaiting(a: WaitingRun, b: WaitingRun): number {
+  return PRIORITY_ORDER[a.request.priority] - PRIORITY_ORDER[b.request.priority] ||
+    (lastStart.get(a.request.groupFolder) ?? 0) - (lastStart.get(b.request.groupFolder) ?? 0) ||
+    a.seq - b.seq;
+}
+
+/**
+ * Why the host can't take a run of this size now, or null if it can.
+ */
+function hostRefusal(memoryMib: number): string | null {
+  const now = Date.now();
+  let startingMib = 0;
+  for (const run of active) {
+    if (now - run.startedAt < STARTUP_RESERVATION_MS) startingMib += run.memoryMib;
+  }
+  const freeMib = Math.floor(os.freemem() / 1024 / 1024) - startingMib;
+  if (freeMib < memoryMib + RUN_MIN_FREE_MEMORY_MIB) {
+    return `${freeMib} MiB free, run needs ${memoryMib} MiB plus ${RUN_MIN_FREE_MEMORY_MIB} MiB headroom`;
+  }
+
+  const load = os.loadavg()[0] / os.cpus().length;
+  if (load >= RUN_MAX_LOAD) {
+    return `load average ${load.toFixed(2)} per CPU, limit ${RUN_MAX_LOAD}`;
+  }
+  return null;
+}
+
+function start(run: WaitingRun): void {
+  waiting.splice(waiting.indexOf(run), 1);
+  const entry: ActiveRun = {
+    groupFolder: run.request.groupFolder,
+    memoryMib: run.request.memoryMib,
+    startedAt: Date.now()
+  };
+  active.add(entry);
+  lastStart.set(entry.groupFolder, ++startCount);
+
+  let released = false;
+  run.admit(() => {
+    if (released) return;
+    released = true;
+    active.delete(entry);
+    admitRuns();
+  });
+}
+
+/**
+ * Start waiting runs while there is room, then tell the rest where they stand.
+ */
+function admitRuns(): void {
+  const busyGroups = new Set(Array.from(active, run => run.groupFolder));
+
+  while (active.size < MAX_CONCURRENT_RUNS) {
+    const next = waiting
+      .filter(run => !busyGroups.has(run.request.groupFolder))
+      .sort(compareWaiting)[0];
+    if (!next) break;
+
+    const refusal = active.size > 0 ? hostRefusal(next.request.memoryMib) : null;
+    if (refusal) {
+      if (refusal !== lastRefusal) {
+        logger.info({ group: next.request.groupFolder, reason: refusal }, 'Run held back, host is busy');
+      }
+      lastRefusal = refusal;
+      if (!retryTimer) {
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          admitRuns();
+        }, ADMISSION_RETRY_INTERVAL_MS);
+        // Runs still in progress keep the process alive; this timer alone shouldn't
+        retryTimer.unref();
+      }
+      break;
+    }
+    lastRefusal = null;
+
+    start(next);
+    busyGroups.add(next.request.groupFolder);
+  }
+
+  waiting.sort(compareWaiting).forEach((run, index) => {
+    if (run.position === index + 1) return;
+    run.position = index + 1;
+    run.request.onQueued?.(run.position);
+  });
+}
+
+/**
+ * Wait for the run's turn. Resolves with a function that must be called once
+ * the run's sandbox is gone, to let the next run start.
+ */
+export function acquireRunSlot(request: RunRequest): Promise<() => void> {
+  return new Promise(resolve => {
+    waiting.push({ request, seq: nextSeq++, queuedAt: Date.now(), position: 0, admit: resolve });
+    admitRuns();
+  });
+}
+
+/**
+ * Runs waiting for a slot, in queue order.
+ */
+export function getRunQueue(): QueuedRunStatus[] {
+  const now = Date.now();
+  return [...waiting].sort(compareWaiting).map((run, index) => ({
+    groupFolder: run.request.groupFolder,
+    priority: run.request.priority,
+    position: index + 1,
+    waitingMs: now - run.queuedAt
+  }));
+}
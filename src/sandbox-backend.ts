@@ -0,0 +1,214 @@
+/**
+ * Sandbox Backends for NanoClaw
+ *
+ * Every agent run happens in a sandbox provided by a backend:
+ *
+ *   firecracker  a microVM per run with its own kernel (firecracker-runner.ts); needs /dev/kvm
+ *   docker       a container per run, with Docker or Podman (docker-runner.ts)
+ *   process      the agent runner as a plain host process (process-runner.ts);
+ *                no isolation at all, for development on a trusted machine
+ *   fake         scripted runs, no agent at all (fake-runner.ts); only with
+ *                NODE_ENV=test, which the test harness sets
+ *
+ * SANDBOX_BACKEND picks the backend for all groups and a group's `sandbox`
+ * setting overrides it. sandbox.ts prepares backends and dispatches runs.
+ * This module holds what the backends share: the interface, the agent
+ * runner's input and output, and the mounts a group gets.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { GROUPS_DIR } from './config.js';
+import { AgentProgressEvent } from './agent-progress.js';
+import { validateAdditionalMounts } from './mount-security.js';
+import type { Review } from './mount-review.js';
+import { RegisteredGroup, SandboxBackendName, VmResources } from './types.js';
+
+export const SANDBOX_BACKEND_NAMES: SandboxBackendName[] = ['firecracker', 'docker', 'process', 'fake'];
+
+// Sentinel markers around the agent runner's ContainerOutput (must match agent-runner)
+const OUTPUT_START_MARKER = '---NANOCLAW_OUTPUT_START---';
+const OUTPUT_END_MARKER = '---NANOCLAW_OUTPUT_END---';
+
+export interface ContainerInput {
+  prompt: string;
+  sessionId?: string;
+  groupFolder: string;
+  chatJid: string;
+  isMain: boolean;
+  isScheduledTask?: boolean;
+  resources?: VmResources;  // Per-run override of the group's resources profile
+  secrets?: Record<string, string>;  // Set by the backend from the group's grants
+}
+
+export interface ContainerOutput {
+  status: 'success' | 'error';
+  result: string | null;
+  newSessionId?: string;
+  error?: string;
+  review?: Review;  // Set when changes to reviewed mounts await approval
+}
+
+export interface Mount {
+  hostPath: string;
+  guestPath: string;
+  readOnly: boolean;
+  /** Hold the run's changes for approval instead of syncing them back */
+  review?: boolean;
+}
+
+export interface SandboxStatus {
+  backend: SandboxBackendName;
+  groupFolder: string;
+  /** VM id, container name or run id */
+  id: string;
+  startedAt: number;
+  runtimeMs: number;
+}
+
+export interface SandboxBackend {
+  readonly name: SandboxBackendName;
+
+  /**
+   * Check the host can run this backend and start its background work (warm
+   * pools, reapers). Called once, before the backend's first run; throws if
+   * the backend can't be used.
+   */
+  prepare(): Promise<void>;
+
+  /**
+   * Group settings this backend can't honour. Returns a list of problems, empty if valid.
+   */
+  validateGroup(group: RegisteredGroup): string[];
+
+  /**
+   * Host memory in MiB a run may take, for admission control; 0 if the
+   * backend doesn't limit it.
+   */
+  memoryFor(group: RegisteredGroup, input: ContainerInput): number;
+
+  /**
+   * Run the agent for one message or task. Progress is streamed to
+   * onProgress while it runs, and the run's changes to writable mounts are
+   * collected back to the host before it resolves. Runs for one group never
+   * overlap; the run queue (run-queue.ts) sees to that.
+   */
+  run(
+    group: RegisteredGroup,
+    input: ContainerInput,
+    onProgress?: (event: AgentProgressEvent) => void
+  ): Promise<ContainerOutput>;
+
+  /** Sandboxes of this backend that are running now */
+  status(): SandboxStatus[];
+
+  /** Stop every running sandbox (graceful shutdown) */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Check a group's sandbox setting. Returns a list of problems, empty if valid.
+ */
+export function validateSandboxBackend(name: unknown): string[] {
+  if (!SANDBOX_BACKEND_NAMES.includes(name as SandboxBackendName)) {
+    return [`sandbox must be one of ${SANDBOX_BACKEND_NAMES.join(', ')}, got ${name}`];
+  }
+  // It would answer every message with nothing, or whatever a test scripted
+  if (name === 'fake' && process.env.NODE_ENV !== 'test') {
+    return ['sandbox fake only plays back scripted test runs and needs NODE_ENV=test'];
+  }
+  return [];
+}
+
+/**
+ * The directories a group's agent sees, by their path in the sandbox.
+ */
+export function buildMounts(group: RegisteredGroup, isMain: boolean): Mount[] {
+  const mounts: Mount[] = [];
+  const projectRoot = process.cwd();
+
+  if (isMain) {
+    // Main gets the entire project root
+    mounts.push({
+      hostPath: projectRoot,
+      guestPath: '/mnt/project',
+      readOnly: false
+    });
+  }
+
+  // Group folder
+  const groupDir = path.join(GROUPS_DIR, group.folder);
+  fs.mkdirSync(groupDir, { recursive: true });
+  mounts.push({
+    hostPath: groupDir,
+    guestPath: '/workspace/group',
+    readOnly: false
+  });
+
+  // Global memory (read-only for non-main)
+  if (!isMain) {
+    const globalDir = path.join(GROUPS_DIR, 'global');
+    if (fs.existsSync(globalDir)) {
+      mounts.push({
+        hostPath: globalDir,
+        guestPath: '/workspace/global',
+        readOnly: true
+      });
+    }
+  }
+
+  // Additional mounts validated against allowlist
+  if (group.containerConfig?.additionalMounts) {
+    const validated = validateAdditionalMounts(
+      group.containerConfig.additionalMounts,
+      group.name,
+      isMain
+    );
+    for (const m of validated) {
+      mounts.push({
+        hostPath: m.hostPath,
+        guestPath: m.containerPath,
+        readOnly: m.readonly
+      });
+    }
+  }
+
+  // Writable mounts whose changes need approval (main's project root, typically)
+  const reviewed = group.containerConfig?.review ?? [];
+  for (const mount of mounts) {
+    if (!mount.readOnly && reviewed.includes(mount.guestPath)) {
+      mount.review = true;
+    }
+  }
+
+  return mounts;
+}
+
+/**
+ * Extract the agent runner's ContainerOutput from a run's stdout.
+ * Images without the agent runner print raw `claude --print` output instead,
+ * which is treated as the result when the run exited cleanly.
+ */
+export function parseAgentOutput(run: { output: string; stderr: string; exitCode: number }): ContainerOutput {
+  const startIdx = run.output.indexOf(OUTPUT_START_MARKER);
+  const endIdx = run.output.indexOf(OUTPUT_END_MARKER);
+
+  if (startIdx !== -1 && endIdx > startIdx) {
+    const jsonText = run.output.slice(startIdx + OUTPUT_START_MARKER.length, endIdx).trim();
+    try {
+      return JSON.parse(jsonText) as ContainerOutput;
+    } catch (err) {
+      return {
+        status: 'error',
+        result: null,
+        error: `Failed to parse agent output: ${err instanceof Error ? err.message : String(err)}`
+      };
+    }
+  }
+
+  if (run.exitCode !== 0) {
+    const tail = (run.output + '\n' + run.stderr).trim().slice(-200);
+    return { status: 'error', result: null, error: `Agent exited with code ${run.exitCode}: ${tail}` };
+  }
+  return { status: 'success', result: run.output.trim() || null };
+}
@@ -0,0 +1,199 @@
+/**
+ * Sandbox Dispatch for NanoClaw
+ *
+ * Picks each group's backend (its `sandbox` setting, else SANDBOX_BACKEND),
+ * prepares backends before their first run and forwards runs to them once
+ * the run queue (run-queue.ts) admits them. The rest of the host only talks
+ * to this module, never to a backend directly.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, SANDBOX_BACKEND } from './config.js';
+import { AgentProgressEvent } from './agent-progress.js';
+import { dockerBackend } from './docker-runner.js';
+import { fakeBackend } from './fake-runner.js';
+import { firecrackerBackend } from './firecracker-runner.js';
+import { processBackend } from './process-runner.js';
+import { acquireRunSlot, getRunQueue, QueuedRunStatus } from './run-queue.js';
+import {
+  ContainerInput,
+  ContainerOutput,
+  SandboxBackend,
+  SandboxStatus,
+  validateSandboxBackend
+} from './sandbox-backend.js';
+import { RegisteredGroup, SandboxBackendName } from './types.js';
+import { logger } from './logger.js';
+
+const backends: Record<SandboxBackendName, SandboxBackend> = {
+  firecracker: firecrackerBackend,
+  docker: dockerBackend,
+  process: processBackend,
+  fake: fakeBackend
+};
+
+// One prepare() per backend; a failed one stays failed until restart
+const prepared = new Map<SandboxBackendName, Promise<void>>();
+
+function backendFor(group: RegisteredGroup): SandboxBackend {
+  return backends[group.sandbox ?? SANDBOX_BACKEND];
+}
+
+function ensurePrepared(backend: SandboxBackend): Promise<void> {
+  let preparing = prepared.get(backend.name);
+  if (!preparing) {
+    preparing = backend.prepare();
+    prepared.set(backend.name, preparing);
+  }
+  return preparing;
+}
+
+/**
+ * Prepare the default backend and every backend a registered group uses, at
+ * startup. The default must work; a broken extra backend is reported and only
+ * the groups using it fail their runs.
+ */
+export async function prepareSandboxBackends(groups: RegisteredGroup[]): Promise<void> {
+  const problems = validateSandboxBackend(SANDBOX_BACKEND);
+  if (problems.length > 0) {
+    throw new Error(`SANDBOX_BACKEND: ${problems.join('; ')}`);
+  }
+  await ensurePrepared(backends[SANDBOX_BACKEND]);
+
+  for (const group of groups) {
+    if (group.sandbox === undefined) continue;
+    if (validateSandboxBackend(group.sandbox).length > 0) {
+      logger.warn({ group: group.name, sandbox: group.sandbox }, 'Unknown sandbox backend, runs for this group will fail');
+      continue;
+    }
+    try {
+      await ensurePrepared(backends[group.sandbox]);
+    } catch (err) {
+      logger.warn({ group: group.name, sandbox: group.sandbox, err }, 'Sandbox backend unavailable, runs for this group will fail');
+    }
+  }
+}
+
+/**
+ * Check a group's sandbox against its settings, for group registration.
+ * Returns a list of problems, empty if valid.
+ */
+export function validateGroupSandbox(group: RegisteredGroup): string[] {
+  if (group.sandbox !== undefined) {
+    const problems = validateSandboxBackend(group.sandbox);
+    if (problems.length > 0) return problems;
+  }
+  return backendFor(group).validateGroup(group);
+}
+
+/**
+ * Run an agent task in the group's sandbox, with optional callbacks for its
+ * queue position while it waits for a slot and the agent's progress while it
+ * runs. Scheduled tasks wait behind messages.
+ */
+export async function runContainerAgent(
+  group: RegisteredGroup,
+  input: ContainerInput,
+  onProgress?: (event: AgentProgressEvent) => void,
+  onQueued?: (position: number) => void
+): Promise<ContainerOutput> {
+  const problems = validateGroupSandbox(group);
+  if (problems.length > 0) {
+    logger.error({ group: group.name, problems }, 'Group settings not supported by its sandbox');
+    return { status: 'error', result: null, error: problems.join('; ') };
+  }
+
+  const backend = backendFor(group);
+  try {
+    await ensurePrepared(backend);
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    return { status: 'error', result: null, error: `Sandbox backend ${backend.name} is unavailable: ${errorMsg}` };
+  }
+
+  const release = await acquireRunSlot({
+    groupFolder: group.folder,
+    priority: input.isScheduledTask ? 'scheduled' : 'interactive',
+    memoryMib: backend.memoryFor(group, input),
+    onQueued
+  });
+  try {
+    return await backend.run(group, input, onProgress);
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Every running sandbox, across backends.
+ */
+export function getSandboxStatus(): SandboxStatus[] {
+  return Array.from(prepared.keys()).flatMap(name => backends[name].status());
+}
+
+/**
+ * Runs waiting for a sandbox, in queue order.
+ */
+export function getQueuedRuns(): QueuedRunStatus[] {
+  return getRunQueue();
+}
+
+/**
+ * Stop every running sandbox of every prepared backend (for graceful shutdown).
+ */
+export async function cleanupSandboxes(): Promise<void> {
+  await Promise.all(Array.from(prepared.keys()).map(name => backends[name].cleanup()));
+}
+
+// ── IPC Helpers ────────────────────────────────────────────────────────
+// These write data to IPC directories for reference on the host.
+
+export function writeTasksSnapshot(
+  groupFolder: string,
+  isMain: boolean,
+  tasks: Array<{
+    id: string;
+    groupFolder: string;
+    prompt: string;
+    schedule_type: string;
+    schedule_value: string;
+    status: string;
+    next_run: string | null;
+  }>
+): void {
+  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
+  fs.mkdirSync(groupIpcDir, { recursive: true });
+
+  const filteredTasks = isMain
+    ? tasks
+    : tasks.filter(t => t.groupFolder === groupFolder);
+
+  const tasksFile = path.join(groupIpcDir, 'current_tasks.json');
+  fs.writeFileSync(tasksFile, JSON.stringify(filteredTasks, null, 2));
+}
+
+export interface AvailableGroup {
+  jid: string;
+  name: string;
+  lastActivity: string;
+  isRegistered: boolean;
+}
+
+export function writeGroupsSnapshot(
+  groupFolder: string,
+  isMain: boolean,
+  groups: AvailableGroup[],
+  registeredJids: Set<string>
+): void {
+  const groupIpcDir = path.join(DATA_DIR, 'ipc', groupFolder);
+  fs.mkdirSync(groupIpcDir, { recursive: true });
+
+  const visibleGroups = isMain ? groups : [];
+
+  const groupsFile = path.join(groupIpcDir, 'available_groups.json');
+  fs.writeFileSync(groupsFile, JSON.stringify({
+    groups: visibleGroups,
+    lastSync: new Date().toISOString()
+  }, null, 2));
+}
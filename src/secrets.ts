@@ -0,0 +1,108 @@
+/**
+ * Secret Broker for NanoClaw
+ *
+ * Named secrets live in ~/.config/nanoclaw/secrets.json, outside the project
+ * and never mounted into a VM:
+ *
+ *   { "GITHUB_TOKEN": "ghp_...", "NPM_TOKEN": "npm_..." }
+ *
+ * A group only receives the secrets listed in its containerConfig.secrets,
+ * plus the model credentials every agent needs (the AI Gateway key, and a
+ * Claude OAuth token or API key if the host has one). They are handed to the
+ * agent runner with the run's input (over vsock for VMs) and exported as
+ * environment variables, so they are never written to a VM's disk image.
+ * Secret values are redacted from run logs and from everything posted to chat.
+ */
+
+import fs from 'fs';
+import { SECRETS_PATH } from './config.js';
+import { RegisteredGroup } from './types.js';
+import { logger } from './logger.js';
+
+export const GATEWAY_KEY_SECRET = 'VERCEL_AI_GATEWAY_KEY';
+// Delivered to every group from the host's environment; the agent can't reach the model without them
+export const MODEL_CREDENTIAL_SECRETS = [GATEWAY_KEY_SECRET, 'CLAUDE_CODE_OAUTH_TOKEN', 'ANTHROPIC_API_KEY'];
+
+const SECRET_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+// Shorter values would redact ordinary words out of the output
+const MIN_REDACTED_LENGTH = 6;
+
+/**
+ * Check a group's secret grants. Returns a list of problems, empty if valid.
+ */
+export function validateSecretGrants(grants: unknown): string[] {
+  if (!Array.isArray(grants)) {
+    return ['secrets must be a list of secret names'];
+  }
+  return grants
+    .filter(name => typeof name !== 'string' || !SECRET_NAME_PATTERN.test(name))
+    .map(name => `secret name must be an environment variable name (A-Z, 0-9, _), got ${name}`);
+}
+
+/**
+ * Read the secret store. Re-read on every run so edits apply without a restart.
+ */
+function loadSecretStore(): Record<string, string> {
+  if (!fs.existsSync(SECRETS_PATH)) return {};
+
+  try {
+    if ((fs.statSync(SECRETS_PATH).mode & 0o077) !== 0) {
+      logger.warn({ path: SECRETS_PATH }, 'Secret store is readable by other users (chmod 600 it)');
+    }
+    const store = JSON.parse(fs.readFileSync(SECRETS_PATH, 'utf-8'));
+    if (typeof store !== 'object' || store === null || Array.isArray(store)) {
+      throw new Error('expected an object of name → value');
+    }
+    const secrets: Record<string, string> = {};
+    for (const [name, value] of Object.entries(store)) {
+      if (SECRET_NAME_PATTERN.test(name) && typeof value === 'string') {
+        secrets[name] = value;
+      } else {
+        logger.warn({ name }, 'Ignoring invalid entry in secret store');
+      }
+    }
+    return secrets;
+  } catch (err) {
+    logger.error({ path: SECRETS_PATH, err }, 'Failed to load secret store, no granted secrets will be delivered');
+    return {};
+  }
+}
+
+/**
+ * The secrets a group's run receives, by name.
+ */
+export function resolveGroupSecrets(group: RegisteredGroup): Record<string, string> {
+  const secrets: Record<string, string> = {};
+  for (const name of MODEL_CREDENTIAL_SECRETS) {
+    const value = process.env[name];
+    if (value) secrets[name] = value;
+  }
+
+  const grants = group.containerConfig?.secrets ?? [];
+  if (grants.length === 0) return secrets;
+
+  const store = loadSecretStore();
+  for (const name of grants) {
+    if (name in store) {
+      secrets[name] = store[name];
+    } else {
+      logger.warn({ group: group.name, secret: name }, 'Granted secret not found in secret store');
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Replace every secret value in text with [REDACTED:<name>].
+ */
+export function redactSecrets(text: string, secrets: Record<string, string>): string {
+  const entries = Object.entries(secrets)
+    .filter(([, value]) => value.length >= MIN_REDACTED_LENGTH)
+    // Longest first, so a secret containing another is redacted whole
+    .sort(([, a], [, b]) => b.length - a.length);
+  let redacted = text;
+  for (const [name, value] of entries) {
+    redacted = redacted.split(value).join(`[REDACTED:${name}]`);
+  }
+  return redacted;
+}
@@ -1,21 +1,19 @@
 import fs from 'fs';
 import path from 'path';
-import pino from 'pino';
 import { CronExpressionParser } from 'cron-parser';
 import { getDueTasks, updateTaskAfterRun, logTaskRun, getTaskById, getAllTasks } from './db.js';
 import { ScheduledTask, RegisteredGroup } from './types.js';
 import { GROUPS_DIR, SCHEDULER_POLL_INTERVAL, DATA_DIR, MAIN_GROUP_FOLDER, TIMEZONE } from './config.js';
-import { runContainerAgent, writeTasksSnapshot } from './firecracker-runner.js';
-
-const logger = pino({
-  level: process.env.LOG_LEVEL || 'info',
-  transport: { target: 'pino-pretty', options: { colorize: true } }
-});
+import { runContainerAgent, writeTasksSnapshot } from './sandbox.js';
+import { Review } from './mount-review.js';
+import { logger } from './logger.js';
 
 export interface SchedulerDependencies {
   sendMessage: (jid: string, text: string) => Promise<void>;
   registeredGroups: () => Record<string, RegisteredGroup>;
   getSessions: () => Record<string, string>;
+  setSession: (groupFolder: string, sessionId: string) => void;
+  announceReview: (review: Review, chatJid: string) => Promise<void>;
 }
 
 async function runTask(task: ScheduledTask, deps: SchedulerDependencies): Promise<void> {
@@ -68,9 +66,21 @@ async function runTask(task: ScheduledTask, deps: SchedulerDependencies): Promis
       groupFolder: task.group_folder,
       chatJid: task.chat_jid,
       isMain,
-      isScheduledTask: true
+      isScheduledTask: true,
+      resources: task.resources ? JSON.parse(task.resources) : undefined
+    }, undefined, position => {
+      logger.info({ taskId: task.id, position }, 'Task waiting for a run slot');
     });
 
+    // Group-context tasks continue the group's conversation, so keep it current
+    if (task.context_mode === 'group' && output.newSessionId) {
+      deps.setSession(task.group_folder, output.newSessionId);
+    }
+
+    if (output.review) {
+      await deps.announceReview(output.review, task.chat_jid);
+    }
+
     if (output.status === 'error') {
       error = output.error || 'Unknown error';
     } else {
@@ -108,17 +118,29 @@ async function runTask(task: ScheduledTask, deps: SchedulerDependencies): Promis
   updateTaskAfterRun(task.id, nextRun, resultSummary);
 }
 
-export function startSchedulerLoop(deps: SchedulerDependencies): void {
-  logger.info('Scheduler loop started');
+// Groups with a task running, so a pass doesn't start their tasks twice
+const busyGroups = new Set<string>();
+
+/**
+ * One pass of the scheduler loop: run every task that is due. Groups run
+ * concurrently and each group's tasks one at a time; the run queue decides
+ * which runs start first. Resolves once the tasks this pass started are done.
+ */
+export async function runDueTasks(deps: SchedulerDependencies): Promise<void> {
+  const dueTasks = getDueTasks().filter(task => !busyGroups.has(task.group_folder));
+  if (dueTasks.length > 0) {
+    logger.info({ count: dueTasks.length }, 'Found due tasks');
+  }
 
-  const loop = async () => {
-    try {
-      const dueTasks = getDueTasks();
-      if (dueTasks.length > 0) {
-        logger.info({ count: dueTasks.length }, 'Found due tasks');
-      }
+  const byGroup = new Map<string, ScheduledTask[]>();
+  for (const task of dueTasks) {
+    byGroup.set(task.group_folder, [...(byGroup.get(task.group_folder) ?? []), task]);
+  }
 
-      for (const task of dueTasks) {
+  await Promise.all(Array.from(byGroup, async ([groupFolder, tasks]) => {
+    busyGroups.add(groupFolder);
+    try {
+      for (const task of tasks) {
         // Re-check task status in case it was paused/cancelled
         const currentTask = getTaskById(task.id);
         if (!currentTask || currentTask.status !== 'active') {
@@ -127,10 +149,18 @@ export function startSchedulerLoop(deps: SchedulerDependencies): void {
 
         await runTask(currentTask, deps);
       }
-    } catch (err) {
-      logger.error({ err }, 'Error in scheduler loop');
+    } finally {
+      busyGroups.delete(groupFolder);
     }
+  }));
+}
+
+export function startSchedulerLoop(deps: SchedulerDependencies): void {
+  logger.info('Scheduler loop started');
 
+  const loop = () => {
+    // Not awaited: a long task in one group must not hold up due tasks in the others
+    runDueTasks(deps).catch(err => logger.error({ err }, 'Error in scheduler loop'));
     setTimeout(loop, SCHEDULER_POLL_INTERVAL);
   };
 
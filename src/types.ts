@@ -27,17 +27,62 @@ export interface AllowedRoot {
   description?: string;
 }
 
+/**
+ * MicroVM sizing. Unset fields fall back to the host defaults
+ * (VM_DEFAULT_VCPUS / VM_DEFAULT_MEMORY_MIB) and are capped by the VM_MAX_* limits.
+ */
+export interface VmResources {
+  vcpus?: number;        // 1 or an even number
+  memoryMib?: number;    // Guest RAM in MiB
+  diskSizeMib?: number;  // Size of the sparse overlay disk: writable space on top of the base image
+  cpuTemplate?: string;  // Firecracker static CPU template, e.g. "T2" or "C3"
+}
+
+/**
+ * Outbound network access for a group's microVM. VMs can never reach each
+ * other or services on the host, whatever the mode.
+ * - full: any destination (the default)
+ * - allowlist: only the listed domains and CIDRs
+ * - none: nothing except the model API the agent needs to run
+ */
+export interface VmNetworkConfig {
+  mode?: 'full' | 'allowlist' | 'none';  // Default: full
+  allow?: string[];  // Domains ("api.github.com") or IPv4 CIDRs ("140.82.112.0/20"), allowlist mode only
+  dns?: string[];    // Resolver IPv4 addresses (default: 8.8.8.8); unused in none mode
+}
+
+/**
+ * What the group sees while an agent is running:
+ * silent (only the final reply), status (one periodically edited status
+ * message) or stream (every assistant text block as its own message).
+ */
+export type ProgressMode = 'silent' | 'status' | 'stream';
+
 export interface ContainerConfig {
   additionalMounts?: AdditionalMount[];
   timeout?: number;  // Default: 300000 (5 minutes)
   env?: Record<string, string>;
+  resources?: VmResources;
+  progress?: ProgressMode;  // Default: AGENT_PROGRESS_MODE
+  network?: VmNetworkConfig;
+  secrets?: string[];  // Names from the secret store, exported as env vars in the guest
+  image?: string;  // Name in the VM image registry. Default: "default"
+  review?: string[];  // Guest paths of writable mounts whose changes need admin approval, e.g. "/mnt/project"
 }
 
+/**
+ * Where a group's agent runs: a Firecracker microVM, a Docker/Podman
+ * container, or a plain host process (no isolation). `fake` plays back
+ * scripted runs for the tests.
+ */
+export type SandboxBackendName = 'firecracker' | 'docker' | 'process' | 'fake';
+
 export interface RegisteredGroup {
   name: string;
   folder: string;
   trigger: string;
   added_at: string;
+  sandbox?: SandboxBackendName;  // Default: SANDBOX_BACKEND
   containerConfig?: ContainerConfig;
 }
 
@@ -67,6 +112,7 @@ export interface ScheduledTask {
   last_result: string | null;
   status: 'active' | 'paused' | 'completed';
   created_at: string;
+  resources?: string | null;  // JSON-encoded VmResources override for this task
 }
 
 export interface TaskRunLog {
@@ -77,3 +123,17 @@ export interface TaskRunLog {
   result: string | null;
   error: string | null;
 }
+
+export interface RunMetricsLog {
+  group_folder: string;
+  run_at: string;
+  duration_ms: number;
+  status: 'success' | 'error';
+  boot_ms: number | null;
+  vcpu_exits: number;
+  block_read_bytes: number;
+  block_write_bytes: number;
+  net_rx_bytes: number;
+  net_tx_bytes: number;
+  mem_peak_bytes: number | null;
+}
@@ -1,3 +1,4 @@
+import { spawn } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 
@@ -16,3 +17,111 @@ export function saveJson(filePath: string, data: unknown): void {
   fs.mkdirSync(path.dirname(filePath), { recursive: true });
   fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
 }
+
+export interface CommandOptions {
+  input?: string | Buffer;
+  timeout?: number;
+  maxBuffer?: number;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Error from a failed runCommand(). Carries the captured output so callers can
+ * still report what the command printed before failing.
+ */
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public readonly stdout: string,
+    public readonly stderr: string,
+    public readonly exitCode: number | null,
+    public readonly killed: boolean
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+// After SIGTERM, how long a timed-out command gets before it is killed outright
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Run a shell command without blocking the event loop.
+ * Mirrors execSync semantics: rejects on non-zero exit, timeout or oversized output.
+ * A command that is stopped takes everything it started with it (the shell runs
+ * in its own process group).
+ */
+export function runCommand(command: string, options: CommandOptions = {}): Promise<CommandResult> {
+  const maxBuffer = options.maxBuffer ?? 1024 * 1024;
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, { shell: true, detached: true, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let killed = false;
+    let overflow = false;
+
+    // sudo can't pass SIGKILL on to its command, only SIGTERM, so try that first
+    const stop = () => {
+      signalGroup(proc.pid, 'SIGTERM');
+      setTimeout(() => signalGroup(proc.pid, 'SIGKILL'), KILL_GRACE_MS).unref();
+    };
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          killed = true;
+          stop();
+        }, options.timeout)
+      : null;
+
+    const collect = (chunk: Buffer, target: 'stdout' | 'stderr') => {
+      if (target === 'stdout') stdout += chunk.toString();
+      else stderr += chunk.toString();
+      if (stdout.length + stderr.length > maxBuffer && !overflow) {
+        overflow = true;
+        stop();
+      }
+    };
+    proc.stdout.on('data', chunk => collect(chunk, 'stdout'));
+    proc.stderr.on('data', chunk => collect(chunk, 'stderr'));
+
+    proc.on('error', err => {
+      if (timer) clearTimeout(timer);
+      reject(new CommandError(`Command failed to start: ${err.message}`, stdout, stderr, null, false));
+    });
+
+    proc.on('close', code => {
+      if (timer) clearTimeout(timer);
+      if (killed) {
+        reject(new CommandError(`Command timed out after ${options.timeout}ms: ${command}`, stdout, stderr, code, true));
+      } else if (overflow) {
+        reject(new CommandError(`Command output exceeded ${maxBuffer} bytes: ${command}`, stdout, stderr, code, false));
+      } else if (code !== 0) {
+        reject(new CommandError(`Command failed (exit ${code}): ${command}\n${stderr.trim()}`, stdout, stderr, code, false));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+
+    // Ignore EPIPE when the command exits without reading its input
+    proc.stdin.on('error', () => {});
+    proc.stdin.end(options.input ?? '');
+  });
+}
+
+function signalGroup(pid: number | undefined, signal: NodeJS.Signals): void {
+  if (pid === undefined) return;
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Already gone
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,191 @@
+/**
+ * VM Slot Allocator for NanoClaw
+ *
+ * Leases a vmId together with everything derived from it (guest IP, MAC, TAP
+ * device name) and hands the slot back when the VM is cleaned up, always
+ * reusing the lowest free vmId. Leases are persisted to data/vm-leases.json so
+ * a crash doesn't leak slots: on the next start, leases held by a process that
+ * is no longer running are reported as stale and reclaimed.
+ *
+ * The guest subnet comes from VM_SUBNET (default 172.16.0.0/24). The first
+ * host address is the bridge; vmId N gets the (N+1)th host address.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { DATA_DIR, VM_SUBNET } from './config.js';
+import { loadJson, saveJson } from './utils.js';
+import { logger } from './logger.js';
+
+const LEASES_PATH = path.join(DATA_DIR, 'vm-leases.json');
+
+// Identifies this process incarnation, so a lease left by an earlier process
+// that happened to get the same PID is still recognised as stale
+const INSTANCE_ID = crypto.randomBytes(8).toString('hex');
+
+export interface VmNetwork {
+  subnet: string;
+  networkAddress: string;
+  prefixLength: number;
+  subnetMask: string;
+  bridgeIp: string;
+  maxVmId: number;
+}
+
+export interface VmLease {
+  vmId: number;
+  ip: string;
+  mac: string;
+  tapDevice: string;
+  owner: string;
+  pid: number;
+  instanceId: string;
+  leasedAt: string;
+}
+
+let network: VmNetwork | null = null;
+let leases: Map<number, VmLease> | null = null;
+
+function ipToInt(ip: string): number {
+  const parts = ip.split('.').map(p => parseInt(p, 10));
+  if (parts.length !== 4 || parts.some(p => isNaN(p) || p < 0 || p > 255)) {
+    throw new Error(`Invalid IPv4 address: ${ip}`);
+  }
+  return ((parts[0] << 24) >>> 0) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+}
+
+function intToIp(n: number): string {
+  return [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255].join('.');
+}
+
+/**
+ * Parse VM_SUBNET. Throws on an invalid CIDR so startup fails loudly.
+ */
+export function getVmNetwork(): VmNetwork {
+  if (network) return network;
+
+  const match = VM_SUBNET.match(/^(\d+\.\d+\.\d+\.\d+)\/(\d+)$/);
+  if (!match) {
+    throw new Error(`[FC] Invalid VM_SUBNET "${VM_SUBNET}" (expected CIDR like 172.16.0.0/24)`);
+  }
+  const prefixLength = parseInt(match[2], 10);
+  if (prefixLength < 8 || prefixLength > 29) {
+    throw new Error(`[FC] VM_SUBNET prefix must be between /8 and /29, got /${prefixLength}`);
+  }
+
+  const mask = (0xffffffff << (32 - prefixLength)) >>> 0;
+  const base = (ipToInt(match[1]) & mask) >>> 0;
+  const hostCount = 2 ** (32 - prefixLength);
+
+  network = {
+    subnet: `${intToIp(base)}/${prefixLength}`,
+    networkAddress: intToIp(base),
+    prefixLength,
+    subnetMask: intToIp(mask),
+    bridgeIp: intToIp(base + 1),
+    // Exclude network address, bridge and broadcast
+    maxVmId: hostCount - 3
+  };
+  return network;
+}
+
+function vmIp(vmId: number): string {
+  const net = getVmNetwork();
+  return intToIp(ipToInt(net.networkAddress) + vmId + 1);
+}
+
+function vmMac(vmId: number): string {
+  const bytes = [
+    (vmId >>> 24) & 255,
+    (vmId >>> 16) & 255,
+    (vmId >>> 8) & 255,
+    vmId & 255
+  ].map(b => b.toString(16).padStart(2, '0').toUpperCase());
+  return `AA:FC:${bytes.join(':')}`;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function loadLeases(): Map<number, VmLease> {
+  if (leases) return leases;
+  const stored = loadJson<VmLease[]>(LEASES_PATH, []);
+  leases = new Map(stored.map(l => [l.vmId, l]));
+  return leases;
+}
+
+function persistLeases(): void {
+  const table = loadLeases();
+  saveJson(LEASES_PATH, Array.from(table.values()).sort((a, b) => a.vmId - b.vmId));
+}
+
+function isStale(lease: VmLease): boolean {
+  if (lease.instanceId === INSTANCE_ID) return false;
+  return lease.pid === process.pid || !isProcessAlive(lease.pid);
+}
+
+/**
+ * Lease the lowest free VM slot for an owner (group folder or "pool").
+ */
+export function leaseVm(owner: string): VmLease {
+  const table = loadLeases();
+  const { maxVmId } = getVmNetwork();
+
+  let vmId = 1;
+  while (table.has(vmId)) vmId++;
+  if (vmId > maxVmId) {
+    throw new Error(`[FC] No free VM slots in ${getVmNetwork().subnet} (${maxVmId} leased)`);
+  }
+
+  const lease: VmLease = {
+    vmId,
+    ip: vmIp(vmId),
+    mac: vmMac(vmId),
+    tapDevice: `tap${vmId}`,
+    owner,
+    pid: process.pid,
+    instanceId: INSTANCE_ID,
+    leasedAt: new Date().toISOString()
+  };
+  table.set(vmId, lease);
+  persistLeases();
+  return lease;
+}
+
+/**
+ * Return a slot to the free list.
+ */
+export function releaseVm(vmId: number): void {
+  const table = loadLeases();
+  if (table.delete(vmId)) {
+    persistLeases();
+  }
+}
+
+/**
+ * Remove and return leases held by processes that are no longer running.
+ * The caller is responsible for tearing down whatever those VMs left behind.
+ */
+export function reclaimStaleLeases(): VmLease[] {
+  const table = loadLeases();
+  const stale = Array.from(table.values()).filter(isStale);
+  if (stale.length === 0) return [];
+
+  for (const lease of stale) {
+    table.delete(lease.vmId);
+  }
+  persistLeases();
+  logger.warn({ vmIds: stale.map(l => l.vmId) }, 'Reclaimed stale VM leases');
+  return stale;
+}
+
+export function getLeases(): VmLease[] {
+  return Array.from(loadLeases().values());
+}
@@ -0,0 +1,126 @@
+/**
+ * VM Console Capture for NanoClaw
+ *
+ * The guest kernel writes its serial console (console=ttyS0) to the
+ * Firecracker process's stdout, and Firecracker writes its own log to the file
+ * configured through /logger. Both are kept per run in
+ * groups/<folder>/logs/firecracker-<timestamp>.console.log: console output as
+ * it arrives, then the Firecracker log when the VM is cleaned up.
+ *
+ * Output from before a file is attached (a pool VM's boot) is buffered and
+ * written on attach. The last console lines are kept in memory so boot
+ * failures can report what the guest printed.
+ */
+
+import { ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+const CONSOLE_TAIL_LINES = 40;
+// Cap on output buffered before a file is attached; the oldest is dropped
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+export interface VmConsole {
+  /** Write everything captured so far, and everything after, to this file */
+  attach(filePath: string): void;
+  /** The file the console is written to, if attached */
+  readonly filePath: string | null;
+  /** The last lines of console output, oldest first */
+  tail(): string[];
+  /** Stop capturing, append the Firecracker log to the attached file and remove it */
+  close(): void;
+}
+
+/**
+ * Capture a Firecracker process's output. `vmmLogPath` is the host path of
+ * the file Firecracker's /logger writes to; it is created empty here.
+ */
+export function captureVmConsole(proc: ChildProcess, vmmLogPath: string): VmConsole {
+  fs.writeFileSync(vmmLogPath, '', { mode: 0o600 });
+
+  let fd: number | null = null;
+  let filePath: string | null = null;
+  let buffered: Buffer[] = [];
+  let bufferedBytes = 0;
+  let partialLine = '';
+  const lines: string[] = [];
+  let closed = false;
+
+  const onData = (chunk: Buffer) => {
+    if (closed) return;
+    if (fd !== null) {
+      try {
+        fs.writeSync(fd, chunk);
+      } catch { /* disk full or removed; the tail is still kept */ }
+    } else {
+      buffered.push(chunk);
+      bufferedBytes += chunk.length;
+      while (bufferedBytes > MAX_BUFFERED_BYTES && buffered.length > 1) {
+        bufferedBytes -= buffered.shift()!.length;
+      }
+    }
+
+    const text = partialLine + chunk.toString('utf-8').replace(/\r/g, '');
+    const complete = text.split('\n');
+    partialLine = complete.pop()!;
+    lines.push(...complete);
+    if (lines.length > CONSOLE_TAIL_LINES) {
+      lines.splice(0, lines.length - CONSOLE_TAIL_LINES);
+    }
+  };
+
+  // Always read both pipes, so a chatty console can never block the VMM on a full pipe
+  proc.stdout?.on('data', onData);
+  proc.stderr?.on('data', onData);
+
+  return {
+    attach(target: string) {
+      if (closed || fd !== null) return;
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fd = fs.openSync(target, 'a');
+      filePath = target;
+      for (const chunk of buffered) {
+        fs.writeSync(fd, chunk);
+      }
+      buffered = [];
+      bufferedBytes = 0;
+    },
+
+    get filePath() {
+      return filePath;
+    },
+
+    tail() {
+      return partialLine ? [...lines, partialLine] : [...lines];
+    },
+
+    close() {
+      if (closed) return;
+      closed = true;
+      if (fd !== null) {
+        try {
+          const vmmLog = fs.readFileSync(vmmLogPath);
+          fs.writeSync(fd, '\n=== Firecracker Log ===\n');
+          fs.writeSync(fd, vmmLog);
+        } catch { /* no log written */ }
+        fs.closeSync(fd);
+        fd = null;
+      }
+      buffered = [];
+      fs.rmSync(vmmLogPath, { force: true });
+    }
+  };
+}
+
+/**
+ * A boot failure with the last console lines appended, since they usually
+ * say why (kernel panic, failed mount, init error).
+ */
+export function withConsoleTail(err: unknown, vmConsole: VmConsole): Error {
+  const message = err instanceof Error ? err.message : String(err);
+  const tail = vmConsole.tail();
+  if (tail.length === 0) {
+    return err instanceof Error ? err : new Error(message);
+  }
+  return new Error(`${message}\nLast console output:\n${tail.join('\n')}`);
+}
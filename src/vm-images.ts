@@ -0,0 +1,197 @@
+/**
+ * VM Image Registry for NanoClaw
+ *
+ * Groups can boot different kernel/rootfs pairs, so tooling one group needs
+ * doesn't bloat every VM. Images are listed in VM_IMAGE_REGISTRY
+ * (default /opt/firecracker/images.json), which build-agent-rootfs.sh updates:
+ *
+ *   {
+ *     "default": {
+ *       "kernel": "/opt/firecracker/vmlinux.bin",
+ *       "rootfs": "/opt/firecracker/agent-rootfs.ext4",
+ *       "version": "2026.10.19-1200",
+ *       "builtAt": "2026-10-19T12:00:00Z",
+ *       "sha256": "…"
+ *     },
+ *     "python": { … }
+ *   }
+ *
+ * Without a registry there is one unversioned "default" image at the paths
+ * above. A group picks an image with containerConfig.image; the rest use
+ * "default". Images are verified once at startup and only verified images can
+ * be booted.
+ */
+
+import { execSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import { VM_IMAGE_REGISTRY } from './config.js';
+import { loadJson } from './utils.js';
+
+export const DEFAULT_IMAGE = 'default';
+const DEFAULT_KERNEL_PATH = '/opt/firecracker/vmlinux.bin';
+const DEFAULT_ROOTFS_PATH = '/opt/firecracker/agent-rootfs.ext4';
+const GUEST_AGENT_PATH = '/opt/nanoclaw/agent-runner/dist/guest-agent.js';
+const IMAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const CHECKSUM_CHUNK_BYTES = 4 * 1024 * 1024;
+
+interface VmImageEntry {
+  kernel: string;
+  rootfs: string;
+  version?: string;
+  builtAt?: string;
+  sha256?: string;
+}
+
+export interface VmImage {
+  name: string;
+  kernelPath: string;
+  rootfsPath: string;
+  version: string;
+  builtAt: string | null;
+  sha256: string | null;
+}
+
+// Filled by verifyVmImages()
+const verifiedImages = new Map<string, VmImage>();
+
+function loadRegistry(): Record<string, VmImageEntry> {
+  if (!fs.existsSync(VM_IMAGE_REGISTRY)) {
+    return { [DEFAULT_IMAGE]: { kernel: DEFAULT_KERNEL_PATH, rootfs: DEFAULT_ROOTFS_PATH } };
+  }
+  const registry = loadJson<Record<string, VmImageEntry> | null>(VM_IMAGE_REGISTRY, null);
+  if (!registry || typeof registry !== 'object' || Array.isArray(registry)) {
+    throw new Error(`[FC] Image registry ${VM_IMAGE_REGISTRY} is not a JSON object of name → image`);
+  }
+  return registry;
+}
+
+function rootfsHasFile(rootfsPath: string, file: string): boolean {
+  try {
+    execSync(`debugfs -R "stat ${file}" ${rootfsPath} 2>&1 | grep -q "^Inode:"`, { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function sha256File(filePath: string): string {
+  const hash = crypto.createHash('sha256');
+  const buffer = Buffer.alloc(CHECKSUM_CHUNK_BYTES);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest('hex');
+}
+
+function verifyImage(name: string, entry: VmImageEntry): VmImage {
+  if (!IMAGE_NAME_PATTERN.test(name)) {
+    throw new Error(`[FC] Image name "${name}" must be lowercase letters, digits and dashes`);
+  }
+  if (typeof entry?.kernel !== 'string' || typeof entry?.rootfs !== 'string') {
+    throw new Error(`[FC] Image "${name}" needs "kernel" and "rootfs" paths`);
+  }
+  if (!fs.existsSync(entry.kernel)) {
+    throw new Error(`[FC] Kernel for image "${name}" not found at ${entry.kernel}. Download a Firecracker-compatible vmlinux.`);
+  }
+  if (!fs.existsSync(entry.rootfs)) {
+    throw new Error(`[FC] Rootfs for image "${name}" not found at ${entry.rootfs}. Run: npm run build-rootfs -- ${name}`);
+  }
+
+  // VMs boot the rootfs read-only and rely on its overlay-init for a writable root
+  if (!rootfsHasFile(entry.rootfs, '/sbin/overlay-init')) {
+    throw new Error(
+      `[FC] Rootfs for image "${name}" at ${entry.rootfs} has no /sbin/overlay-init (built by an older script). ` +
+      `Run: npm run build-rootfs -- ${name}`
+    );
+  }
+
+  if (entry.sha256) {
+    const startTime = Date.now();
+    const actual = sha256File(entry.rootfs);
+    if (actual !== entry.sha256) {
+      throw new Error(
+        `[FC] Rootfs for image "${name}" does not match its registered checksum (modified or corrupt). ` +
+        `Run: npm run build-rootfs -- ${name}`
+      );
+    }
+    console.log(`[FC] Verified image "${name}" checksum in ${Date.now() - startTime}ms`);
+  }
+
+  // Runs, credentials and secrets only reach the guest through its guest agent
+  if (!rootfsHasFile(entry.rootfs, GUEST_AGENT_PATH)) {
+    throw new Error(
+      `[FC] Rootfs for image "${name}" at ${entry.rootfs} has no vsock guest agent (built by an older script). ` +
+      `Run: npm run build-rootfs -- ${name}`
+    );
+  }
+
+  return {
+    name,
+    kernelPath: entry.kernel,
+    rootfsPath: entry.rootfs,
+    version: entry.version ?? 'unversioned',
+    builtAt: entry.builtAt ?? null,
+    sha256: entry.sha256 ?? null
+  };
+}
+
+/**
+ * Verify every registered image at startup. The default image must be valid;
+ * a broken extra image is reported and left unavailable, so only the groups
+ * using it are affected.
+ */
+export function verifyVmImages(): VmImage[] {
+  const registry = loadRegistry();
+  if (!registry[DEFAULT_IMAGE]) {
+    throw new Error(`[FC] Image registry ${VM_IMAGE_REGISTRY} has no "${DEFAULT_IMAGE}" image`);
+  }
+
+  verifiedImages.clear();
+  for (const [name, entry] of Object.entries(registry)) {
+    try {
+      verifiedImages.set(name, verifyImage(name, entry));
+    } catch (err) {
+      if (name === DEFAULT_IMAGE) throw err;
+      console.log(`[FC] Warning: image "${name}" is unavailable: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return Array.from(verifiedImages.values());
+}
+
+/**
+ * A verified image by name. Throws if it isn't registered or failed verification.
+ */
+export function getVmImage(name: string = DEFAULT_IMAGE): VmImage {
+  const image = verifiedImages.get(name);
+  if (!image) {
+    throw new Error(`VM image "${name}" is not available (not registered in ${VM_IMAGE_REGISTRY}, or failed verification at startup)`);
+  }
+  return image;
+}
+
+/**
+ * Check an image name from a group config. Returns a list of problems, empty if valid.
+ */
+export function validateImageName(name: unknown): string[] {
+  if (typeof name !== 'string' || !IMAGE_NAME_PATTERN.test(name)) {
+    return [`image must be an image name (lowercase letters, digits, dashes), got ${name}`];
+  }
+  if (!verifiedImages.has(name)) {
+    return [`image "${name}" is not available`];
+  }
+  return [];
+}
+
+/**
+ * True if a run with this image can use a generic warm pool VM.
+ */
+export function isDefaultVmImage(image: VmImage): boolean {
+  return image.name === DEFAULT_IMAGE;
+}
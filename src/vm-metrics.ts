@@ -0,0 +1,130 @@
+/**
+ * VM Resource Metrics for NanoClaw
+ *
+ * Firecracker writes its metrics as one JSON object per line to the file
+ * configured through /metrics: every 60 seconds, and whenever the host sends
+ * the FlushMetrics action. Counters in each line are deltas since the
+ * previous line, so a run's usage is the sum of the lines written during it.
+ *
+ * The file is read as it grows while the run is going and once more after a
+ * final flush. Peak memory comes from the guest agent, which samples it while
+ * the task runs; Firecracker only sees the guest's memory as a whole.
+ */
+
+import fs from 'fs';
+
+const METRICS_POLL_INTERVAL_MS = 15_000;
+
+export interface VmRunMetrics {
+  /** Cold boot or warm VM provisioning, until the guest was ready */
+  bootMs: number | null;
+  vcpuExits: number;
+  blockReadBytes: number;
+  blockWriteBytes: number;
+  netRxBytes: number;
+  netTxBytes: number;
+  /** Highest guest memory use while the task ran (null from guest agents that predate it) */
+  memPeakBytes: number | null;
+}
+
+export type VmCounters = Omit<VmRunMetrics, 'bootMs' | 'memPeakBytes'>;
+
+export interface VmMetricsCollector {
+  /** Read any metric lines written since the last read */
+  collect(): void;
+  /** Start counting from zero, e.g. when a pool VM is handed to a run */
+  reset(): void;
+  totals(): VmCounters;
+  /** Stop polling and remove the metrics file */
+  close(): void;
+}
+
+interface MetricsLine {
+  vcpu?: { exit_io_in?: number; exit_io_out?: number; exit_mmio_read?: number; exit_mmio_write?: number };
+  block?: { read_bytes?: number; write_bytes?: number };
+  net?: { rx_bytes_count?: number; tx_bytes_count?: number };
+}
+
+function emptyCounters(): VmCounters {
+  return { vcpuExits: 0, blockReadBytes: 0, blockWriteBytes: 0, netRxBytes: 0, netTxBytes: 0 };
+}
+
+function addLine(totals: VmCounters, line: MetricsLine): void {
+  const vcpu = line.vcpu ?? {};
+  totals.vcpuExits += (vcpu.exit_io_in ?? 0) + (vcpu.exit_io_out ?? 0) +
+    (vcpu.exit_mmio_read ?? 0) + (vcpu.exit_mmio_write ?? 0);
+  totals.blockReadBytes += line.block?.read_bytes ?? 0;
+  totals.blockWriteBytes += line.block?.write_bytes ?? 0;
+  totals.netRxBytes += line.net?.rx_bytes_count ?? 0;
+  totals.netTxBytes += line.net?.tx_bytes_count ?? 0;
+}
+
+/**
+ * Follow the metrics file of a VM. `metricsPath` is the host path Firecracker's
+ * /metrics writes to; it is created empty here, since Firecracker won't create it.
+ */
+export function startMetricsCollector(metricsPath: string): VmMetricsCollector {
+  fs.writeFileSync(metricsPath, '', { mode: 0o600 });
+
+  let offset = 0;
+  let totals = emptyCounters();
+
+  const collect = () => {
+    let data: Buffer;
+    try {
+      const fd = fs.openSync(metricsPath, 'r');
+      try {
+        const size = fs.fstatSync(fd).size;
+        data = Buffer.alloc(Math.max(0, size - offset));
+        fs.readSync(fd, data, 0, data.length, offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      return; // Removed with the VM
+    }
+
+    // Only consume complete lines; a partial one is read again next time
+    const end = data.lastIndexOf('\n');
+    if (end === -1) return;
+    offset += end + 1;
+    for (const text of data.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!text.trim()) continue;
+      try {
+        addLine(totals, JSON.parse(text) as MetricsLine);
+      } catch { /* not a metrics line */ }
+    }
+  };
+
+  const timer = setInterval(collect, METRICS_POLL_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    collect,
+    reset() {
+      collect();
+      totals = emptyCounters();
+    },
+    totals() {
+      return { ...totals };
+    },
+    close() {
+      clearInterval(timer);
+      fs.rmSync(metricsPath, { force: true });
+    }
+  };
+}
+
+/**
+ * The run log's metrics section.
+ */
+export function formatRunMetrics(metrics: VmRunMetrics): string[] {
+  const mib = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MiB`;
+  return [
+    `Boot: ${metrics.bootMs === null ? 'n/a' : `${metrics.bootMs}ms`}`,
+    `vCPU Exits: ${metrics.vcpuExits}`,
+    `Block I/O: ${mib(metrics.blockReadBytes)} read, ${mib(metrics.blockWriteBytes)} written`,
+    `Network: ${mib(metrics.netRxBytes)} received, ${mib(metrics.netTxBytes)} sent`,
+    `Peak Memory: ${metrics.memPeakBytes === null ? 'n/a' : mib(metrics.memPeakBytes)}`
+  ];
+}
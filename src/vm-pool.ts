@@ -0,0 +1,276 @@
+/**
+ * Warm microVM Pool for NanoClaw
+ *
+ * Keeps a fixed number of generic, already-booted VMs ready so a run only pays
+ * for provisioning its files instead of a full kernel boot. Each pool slot owns
+ * a stable vmId (and therefore IP, TAP and rootfs path), which lets a slot be
+ * refilled from a Firecracker snapshot of its own first boot.
+ *
+ * Snapshots are stored per slot under data/vm-snapshots/vm-<id>/ and are
+ * discarded whenever the fingerprint (kernel, base rootfs, VM size, subnet)
+ * changes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  DATA_DIR,
+  VM_POOL_SIZE,
+  VM_POOL_IDLE_TIMEOUT,
+  VM_POOL_SNAPSHOTS
+} from './config.js';
+import { VmLease } from './vm-allocator.js';
+import { logger } from './logger.js';
+
+const SNAPSHOT_DIR = path.join(DATA_DIR, 'vm-snapshots');
+const EVICTION_CHECK_INTERVAL_MS = 60_000;
+const REFILL_RETRY_DELAY_MS = 30_000;
+
+export interface VmPoolDependencies<T> {
+  allocate: () => VmLease;
+  release: (vmId: number) => void;
+  boot: (lease: VmLease) => Promise<T>;
+  snapshot: (vm: T, snapshotDir: string) => Promise<void>;
+  restore: (lease: VmLease, snapshotDir: string) => Promise<T>;
+  destroy: (vm: T) => Promise<void>;
+  fingerprint: () => string;
+}
+
+interface PoolSlot<T> {
+  vmId: number;
+  lease: VmLease;
+  state: 'empty' | 'warming' | 'ready' | 'leased';
+  vm: T | null;
+  retryAt: number;
+}
+
+interface SnapshotMeta {
+  fingerprint: string;
+  createdAt: string;
+}
+
+export interface VmPoolStatus {
+  size: number;
+  ready: number;
+  warming: number;
+  leased: number;
+  idle: boolean;
+}
+
+let deps: VmPoolDependencies<unknown> | null = null;
+let slots: PoolSlot<unknown>[] = [];
+let lastDemandAt = Date.now();
+let idle = false;
+let evictionTimer: NodeJS.Timeout | null = null;
+let refillTimer: NodeJS.Timeout | null = null;
+
+function snapshotDirFor(vmId: number): string {
+  return path.join(SNAPSHOT_DIR, `vm-${vmId}`);
+}
+
+function hasValidSnapshot(vmId: number): boolean {
+  if (!VM_POOL_SNAPSHOTS || !deps) return false;
+  const metaPath = path.join(snapshotDirFor(vmId), 'meta.json');
+  try {
+    const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as SnapshotMeta;
+    return meta.fingerprint === deps.fingerprint();
+  } catch {
+    return false;
+  }
+}
+
+function discardSnapshot(vmId: number): void {
+  fs.rmSync(snapshotDirFor(vmId), { recursive: true, force: true });
+}
+
+async function warmSlot(slot: PoolSlot<unknown>): Promise<void> {
+  const poolDeps = deps;
+  if (!poolDeps) return;
+  slot.state = 'warming';
+  const startTime = Date.now();
+
+  try {
+    let vm: unknown;
+    if (hasValidSnapshot(slot.vmId)) {
+      try {
+        vm = await poolDeps.restore(slot.lease, snapshotDirFor(slot.vmId));
+        logger.info({ vmId: slot.vmId, durationMs: Date.now() - startTime }, 'Pool VM restored from snapshot');
+      } catch (err) {
+        logger.warn({ vmId: slot.vmId, err }, 'Snapshot restore failed, discarding snapshot and cold booting');
+        discardSnapshot(slot.vmId);
+      }
+    }
+
+    if (!vm) {
+      vm = await poolDeps.boot(slot.lease);
+      logger.info({ vmId: slot.vmId, durationMs: Date.now() - startTime }, 'Pool VM booted');
+
+      if (VM_POOL_SNAPSHOTS) {
+        const dir = snapshotDirFor(slot.vmId);
+        try {
+          discardSnapshot(slot.vmId);
+          fs.mkdirSync(dir, { recursive: true });
+          await poolDeps.snapshot(vm, dir);
+          const meta: SnapshotMeta = { fingerprint: poolDeps.fingerprint(), createdAt: new Date().toISOString() };
+          fs.writeFileSync(path.join(dir, 'meta.json'), JSON.stringify(meta, null, 2));
+          logger.info({ vmId: slot.vmId }, 'Pool VM snapshot created');
+        } catch (err) {
+          logger.warn({ vmId: slot.vmId, err }, 'Failed to snapshot pool VM');
+          discardSnapshot(slot.vmId);
+        }
+      }
+    }
+
+    // Pool may have been stopped or evicted while this slot was warming
+    if (deps !== poolDeps || idle) {
+      await poolDeps.destroy(vm);
+      slot.state = 'empty';
+      slot.vm = null;
+      return;
+    }
+
+    slot.vm = vm;
+    slot.state = 'ready';
+  } catch (err) {
+    logger.error({ vmId: slot.vmId, err }, 'Failed to warm pool VM');
+    slot.state = 'empty';
+    slot.vm = null;
+    slot.retryAt = Date.now() + REFILL_RETRY_DELAY_MS;
+  }
+}
+
+async function refill(): Promise<void> {
+  refillTimer = null;
+  if (!deps || idle) return;
+
+  // Warm one slot at a time so a refill never competes with itself for the host
+  const now = Date.now();
+  const slot = slots.find(s => s.state === 'empty' && s.retryAt <= now);
+  if (slot) {
+    await warmSlot(slot);
+  }
+
+  const pending = slots.filter(s => s.state === 'empty');
+  if (pending.length > 0) {
+    const nextRetry = Math.min(...pending.map(s => s.retryAt));
+    scheduleRefill(Math.max(0, nextRetry - Date.now()));
+  }
+}
+
+function scheduleRefill(delayMs = 0): void {
+  if (!deps || idle || refillTimer) return;
+  refillTimer = setTimeout(() => {
+    refill().catch(err => logger.error({ err }, 'Pool refill failed'));
+  }, delayMs);
+}
+
+async function evictIdle(): Promise<void> {
+  if (!deps || idle) return;
+  if (Date.now() - lastDemandAt < VM_POOL_IDLE_TIMEOUT) return;
+
+  idle = true;
+  const ready = slots.filter(s => s.state === 'ready');
+  for (const slot of ready) {
+    const vm = slot.vm;
+    slot.vm = null;
+    slot.state = 'empty';
+    await deps.destroy(vm);
+  }
+  if (ready.length > 0) {
+    logger.info({ evicted: ready.length }, 'Evicted idle pool VMs');
+  }
+}
+
+/**
+ * Start the pool and begin warming slots in the background.
+ * A pool size of 0 leaves the pool disabled and every run cold boots.
+ */
+export function startVmPool<T>(poolDeps: VmPoolDependencies<T>): void {
+  if (VM_POOL_SIZE <= 0 || deps) return;
+
+  deps = poolDeps as VmPoolDependencies<unknown>;
+  slots = [];
+  for (let i = 0; i < VM_POOL_SIZE; i++) {
+    const lease = deps.allocate();
+    slots.push({ vmId: lease.vmId, lease, state: 'empty', vm: null, retryAt: 0 });
+  }
+  lastDemandAt = Date.now();
+  idle = false;
+
+  evictionTimer = setInterval(() => {
+    evictIdle().catch(err => logger.error({ err }, 'Pool eviction failed'));
+  }, EVICTION_CHECK_INTERVAL_MS);
+
+  logger.info({ size: VM_POOL_SIZE, snapshots: VM_POOL_SNAPSHOTS }, 'VM pool started');
+  scheduleRefill();
+}
+
+/**
+ * Take a ready VM out of the pool. Returns null when none is ready,
+ * in which case the caller should cold boot.
+ */
+export function acquirePooledVM<T>(): T | null {
+  if (!deps) return null;
+
+  lastDemandAt = Date.now();
+  if (idle) {
+    idle = false;
+    logger.info('VM pool woken by demand');
+  }
+
+  const slot = slots.find(s => s.state === 'ready');
+  scheduleRefill();
+  if (!slot) return null;
+
+  slot.state = 'leased';
+  const vm = slot.vm as T;
+  slot.vm = null;
+  return vm;
+}
+
+/**
+ * Return a leased slot after its VM has been destroyed so it can be refilled.
+ */
+export function releasePooledVM(vmId: number): void {
+  const slot = slots.find(s => s.vmId === vmId);
+  if (!slot || slot.state !== 'leased') return;
+  slot.state = 'empty';
+  slot.retryAt = 0;
+  scheduleRefill();
+}
+
+export function getVmPoolStatus(): VmPoolStatus {
+  return {
+    size: slots.length,
+    ready: slots.filter(s => s.state === 'ready').length,
+    warming: slots.filter(s => s.state === 'warming').length,
+    leased: slots.filter(s => s.state === 'leased').length,
+    idle
+  };
+}
+
+/**
+ * Destroy all ready VMs and stop refilling (for graceful shutdown).
+ * Leased VMs are owned by their runs and cleaned up there.
+ */
+export async function stopVmPool(): Promise<void> {
+  if (!deps) return;
+  const poolDeps = deps;
+  deps = null;
+
+  if (evictionTimer) clearInterval(evictionTimer);
+  if (refillTimer) clearTimeout(refillTimer);
+  evictionTimer = null;
+  refillTimer = null;
+
+  for (const slot of slots) {
+    if (slot.state === 'ready' && slot.vm) {
+      await poolDeps.destroy(slot.vm);
+    }
+    slot.vm = null;
+    slot.state = 'empty';
+    poolDeps.release(slot.vmId);
+  }
+  slots = [];
+  logger.info('VM pool stopped');
+}
@@ -0,0 +1,117 @@
+/**
+ * VM Resource Profiles for NanoClaw
+ *
+ * Resolves the vCPU/memory/disk/CPU-template a run gets from, in order of
+ * precedence: a per-task override, the group's containerConfig.resources, and
+ * the host defaults. Everything is validated against host-wide maximums so a
+ * group config (or an agent scheduling a task) can't ask for more than the host allows.
+ */
+
+import {
+  VM_DEFAULT_VCPUS,
+  VM_DEFAULT_MEMORY_MIB,
+  VM_MAX_VCPUS,
+  VM_MAX_MEMORY_MIB,
+  VM_MAX_DISK_MIB
+} from './config.js';
+import { VmResources } from './types.js';
+
+const MIN_MEMORY_MIB = 128;
+
+// Static CPU templates accepted by Firecracker's /machine-config
+const CPU_TEMPLATES = ['C3', 'T2', 'T2S', 'T2CL', 'T2A', 'V1N1', 'None'];
+
+export interface ResolvedVmResources {
+  vcpus: number;
+  memoryMib: number;
+  diskSizeMib: number | null;
+  cpuTemplate: string | null;
+}
+
+/**
+ * Check a (partial) resources block. Returns a list of problems, empty if valid.
+ */
+export function validateVmResources(resources: VmResources): string[] {
+  const errors: string[] = [];
+
+  if (resources.vcpus !== undefined) {
+    const { vcpus } = resources;
+    if (!Number.isInteger(vcpus) || vcpus < 1) {
+      errors.push(`vcpus must be a positive integer, got ${vcpus}`);
+    } else if (vcpus !== 1 && vcpus % 2 !== 0) {
+      errors.push(`vcpus must be 1 or an even number, got ${vcpus}`);
+    } else if (vcpus > VM_MAX_VCPUS) {
+      errors.push(`vcpus ${vcpus} exceeds host maximum ${VM_MAX_VCPUS}`);
+    }
+  }
+
+  if (resources.memoryMib !== undefined) {
+    const { memoryMib } = resources;
+    if (!Number.isInteger(memoryMib) || memoryMib < MIN_MEMORY_MIB) {
+      errors.push(`memoryMib must be an integer >= ${MIN_MEMORY_MIB}, got ${memoryMib}`);
+    } else if (memoryMib > VM_MAX_MEMORY_MIB) {
+      errors.push(`memoryMib ${memoryMib} exceeds host maximum ${VM_MAX_MEMORY_MIB}`);
+    }
+  }
+
+  if (resources.diskSizeMib !== undefined) {
+    const { diskSizeMib } = resources;
+    if (!Number.isInteger(diskSizeMib) || diskSizeMib < 1) {
+      errors.push(`diskSizeMib must be a positive integer, got ${diskSizeMib}`);
+    } else if (diskSizeMib > VM_MAX_DISK_MIB) {
+      errors.push(`diskSizeMib ${diskSizeMib} exceeds host maximum ${VM_MAX_DISK_MIB}`);
+    }
+  }
+
+  if (resources.cpuTemplate !== undefined && !CPU_TEMPLATES.includes(resources.cpuTemplate)) {
+    errors.push(`cpuTemplate must be one of ${CPU_TEMPLATES.join(', ')}, got ${resources.cpuTemplate}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Merge override → group profile → host defaults, validating each layer.
+ * Throws if either layer asks for something the host doesn't allow.
+ */
+export function resolveVmResources(
+  groupResources?: VmResources,
+  override?: VmResources
+): ResolvedVmResources {
+  for (const [label, layer] of [['group', groupResources], ['task override', override]] as const) {
+    if (!layer) continue;
+    const errors = validateVmResources(layer);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${label} VM resources: ${errors.join('; ')}`);
+    }
+  }
+
+  return {
+    vcpus: override?.vcpus ?? groupResources?.vcpus ?? VM_DEFAULT_VCPUS,
+    memoryMib: override?.memoryMib ?? groupResources?.memoryMib ?? VM_DEFAULT_MEMORY_MIB,
+    diskSizeMib: override?.diskSizeMib ?? groupResources?.diskSizeMib ?? null,
+    cpuTemplate: override?.cpuTemplate ?? groupResources?.cpuTemplate ?? null
+  };
+}
+
+/**
+ * Memory a run's sandbox gets, for admission control. Invalid resources count
+ * as none: the run fails on them before it starts a sandbox.
+ */
+export function runMemoryMib(groupResources?: VmResources, override?: VmResources): number {
+  try {
+    return resolveVmResources(groupResources, override).memoryMib;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * True if a run with these resources can use a generic warm pool VM.
+ */
+export function isDefaultVmResources(resources: ResolvedVmResources): boolean {
+  return resources.vcpus === VM_DEFAULT_VCPUS &&
+    resources.memoryMib === VM_DEFAULT_MEMORY_MIB &&
+    resources.diskSizeMib === null &&
+    resources.cpuTemplate === null;
+}
@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import { ASSISTANT_NAME, Harness, startHarness } from './harness.js';
+
+// Two runs at once, and no free memory or load limit, so admission only
+// depends on the queue itself
+process.env.MAX_CONCURRENT_RUNS = '2';
+process.env.RUN_MIN_FREE_MEMORY_MIB = '0';
+process.env.RUN_MAX_LOAD = '1000';
+
+// Stand-ins for the container runtime and the agent runner: they record what
+// they were started with and reply like the agent runner
+const tools = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-test-'));
+process.env.CONTAINER_RUNTIME = path.join(tools, 'docker');
+
+function fakeAgent(recordPath: string): string {
+  return `#!/usr/bin/env node
+const fs = require('fs');
+// The runtime's other commands: version, image inspect, kill
+if (process.argv[2] !== undefined && process.argv[2] !== 'run') process.exit(0);
+let input = '';
+process.stdin.on('data', chunk => { input += chunk; });
+process.stdin.on('end', () => {
+  const record = { args: process.argv.slice(2), env: process.env, input: JSON.parse(input) };
+  fs.writeFileSync(${JSON.stringify(recordPath)}, JSON.stringify(record));
+  console.log('---NANOCLAW_OUTPUT_START---\\n{"status":"success","result":"Done"}\\n---NANOCLAW_OUTPUT_END---');
+});
+`;
+}
+
+interface AgentRecord {
+  args: string[];
+  env: Record<string, string>;
+  input: { secrets?: Record<string, string> };
+}
+
+function agentRecord(name: string): AgentRecord {
+  return JSON.parse(fs.readFileSync(path.join(tools, `${name}.json`), 'utf-8'));
+}
+
+const MAIN = '10000@s.whatsapp.net';
+const TEAM = '20000@g.us';
+const OTHER = '30000@g.us';
+const NIGHTLY = '40000@g.us';
+const DOCKER = '50000@g.us';
+const PROCESS = '60000@g.us';
+
+const TRIGGER = `@${ASSISTANT_NAME}`;
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({
+    [MAIN]: { name: 'Main', folder: 'main', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [TEAM]: { name: 'Team', folder: 'team', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [OTHER]: { name: 'Other', folder: 'other', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [NIGHTLY]: { name: 'Nightly', folder: 'nightly', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [DOCKER]: { name: 'Docker', folder: 'docker', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z', sandbox: 'docker' },
+    [PROCESS]: { name: 'Process', folder: 'process', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z', sandbox: 'process' }
+  }, dir => {
+    fs.writeFileSync(process.env.CONTAINER_RUNTIME!, fakeAgent(path.join(tools, 'docker.json')), { mode: 0o755 });
+    const runner = path.join(dir, 'container', 'agent-runner', 'dist', 'index.js');
+    fs.mkdirSync(path.dirname(runner), { recursive: true });
+    fs.writeFileSync(runner, fakeAgent(path.join(tools, 'process.json')));
+  });
+});
+
+after(() => {
+  h.stop();
+  fs.rmSync(tools, { recursive: true, force: true });
+});
+
+/**
+ * A promise a scripted run holds on until the test releases it.
+ */
+function gate() {
+  let release!: () => void;
+  const promise = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return { promise, release };
+}
+
+// Give the router and the queue time to reach their next wait
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.ok(check());
+}
+
+test('different groups run concurrently, up to the limit, messages ahead of tasks', async t => {
+  h.script('nightly', {
+    output: { result: 'Scheduled' },
+    tasks: [{
+      type: 'schedule_task',
+      groupFolder: 'nightly',
+      prompt: 'Nightly cleanup',
+      schedule_type: 'once',
+      schedule_value: new Date(Date.now() - 1000).toISOString()
+    }]
+  });
+  h.receive(NIGHTLY, `${TRIGGER} schedule the cleanup`);
+  await h.processMessages();
+  await h.processIpc();
+  const before = h.runs().length;
+
+  const team = gate();
+  const other = gate();
+  // Held runs keep the typing indicator going, which would keep a failed test running
+  t.after(() => {
+    team.release();
+    other.release();
+  });
+  h.script('team', { output: { result: 'Team done' }, hold: team.promise });
+  h.script('other', { output: { result: 'Other done' }, hold: other.promise });
+  h.script('main', { output: { result: 'Main done' } });
+  h.script('nightly', { output: { result: 'Cleaned up' } });
+
+  // One pass dispatches both chats, and both runs start
+  h.receive(TEAM, `${TRIGGER} long job`);
+  h.receive(OTHER, `${TRIGGER} another long job`);
+  const firstPass = h.processMessages();
+  await waitFor(() => h.active().length === 2);
+
+  // The limit is reached, so the task waits...
+  const tasks = h.runDueTasks();
+  await waitFor(() => h.queue().length === 1);
+
+  // ...and a message that arrives later goes ahead of it
+  h.receive(MAIN, 'quick question');
+  const secondPass = h.processMessages();
+  await waitFor(() => h.queue().length === 2);
+  assert.deepEqual(h.queue().map(run => [run.groupFolder, run.priority, run.position]), [
+    ['main', 'interactive', 1],
+    ['nightly', 'scheduled', 2]
+  ]);
+  assert.deepEqual(h.active().map(run => run.groupFolder).sort(), ['other', 'team']);
+  assert.equal(h.runs().length, before);
+
+  team.release();
+  await secondPass;
+  await tasks;
+  assert.deepEqual(h.queue(), []);
+  assert.equal(h.socket.sentTo(MAIN).at(-1), `${ASSISTANT_NAME}: Main done`);
+
+  other.release();
+  await firstPass;
+  assert.deepEqual(h.runs().slice(before).map(run => run.groupFolder), ['team', 'main', 'nightly', 'other']);
+  assert.equal(h.socket.sentTo(OTHER).at(-1), `${ASSISTANT_NAME}: Other done`);
+});
+
+test('the docker and process backends point the agent at the model API and hand it the model credentials', async () => {
+  process.env.VERCEL_AI_GATEWAY_KEY = 'gateway-key-1234';
+  process.env.CLAUDE_CODE_OAUTH_TOKEN = 'oauth-token-5678';
+  delete process.env.ANTHROPIC_API_KEY;
+  const credentials = { VERCEL_AI_GATEWAY_KEY: 'gateway-key-1234', CLAUDE_CODE_OAUTH_TOKEN: 'oauth-token-5678' };
+
+  h.receive(DOCKER, `${TRIGGER} hello`);
+  h.receive(PROCESS, `${TRIGGER} hello`);
+  await h.processMessages();
+  assert.equal(h.socket.sentTo(DOCKER).at(-1), `${ASSISTANT_NAME}: Done`);
+  assert.equal(h.socket.sentTo(PROCESS).at(-1), `${ASSISTANT_NAME}: Done`);
+
+  // The container gets the URL; the credentials come with the input, never on the command line
+  const docker = agentRecord('docker');
+  assert.equal(docker.args[0], 'run');
+  assert.ok(docker.args.includes('ANTHROPIC_BASE_URL=https://ai-gateway.vercel.sh'));
+  assert.ok(!docker.args.some(arg => arg.includes('gateway-key-1234') || arg.includes('oauth-token-5678')));
+  assert.deepEqual(docker.input.secrets, credentials);
+
+  // The process gets the URL and none of the host's environment
+  const local = agentRecord('process');
+  assert.equal(local.env.ANTHROPIC_BASE_URL, 'https://ai-gateway.vercel.sh');
+  assert.equal(local.env.VERCEL_AI_GATEWAY_KEY, undefined);
+  assert.equal(local.env.MAX_CONCURRENT_RUNS, undefined);
+  assert.deepEqual(local.input.secrets, credentials);
+});
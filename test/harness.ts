@@ -0,0 +1,163 @@
+/**
+ * End-to-end Test Harness for NanoClaw
+ *
+ * Runs the real router, IPC handling and scheduler (src/index.ts,
+ * src/task-scheduler.ts) in a scratch project directory, with an in-memory
+ * WhatsApp socket and the fake sandbox backend (src/fake-runner.ts) in place
+ * of WhatsApp and the agent. Nothing runs on timers: a test receives
+ * messages, scripts the agent's runs and then drives each loop pass itself,
+ * so every step happens in a known order.
+ *
+ * Configuration is read when the source modules are first imported, so they
+ * are only imported here, after the scratch directory is set up. Test files
+ * must not import them directly (types are fine), and the test runner gives
+ * each file its own process, so one harness per file.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { WAMessage, WAMessageKey } from '@whiskeysockets/baileys';
+import type { FakeRun, FakeRunRecord } from '../src/fake-runner.js';
+import type { ChatSocket } from '../src/index.js';
+import type { QueuedRunStatus } from '../src/run-queue.js';
+import type { SandboxStatus } from '../src/sandbox-backend.js';
+import type { RegisteredGroup, ScheduledTask, TaskRunLog } from '../src/types.js';
+
+export const ASSISTANT_NAME = 'Andy';
+
+export interface SentMessage {
+  jid: string;
+  text: string;
+  /** Set when the message edits an earlier one (status updates) */
+  edit?: WAMessageKey;
+}
+
+export interface FakeSocket extends ChatSocket {
+  sent: SentMessage[];
+  /** Chats the socket is a participant of, for group metadata syncs */
+  groups: Record<string, { subject?: string }>;
+  /** Texts sent to a chat so far, edits included */
+  sentTo(jid: string): string[];
+}
+
+export interface Harness {
+  /** The scratch project directory, also the working directory */
+  dir: string;
+  socket: FakeSocket;
+  /** Queue the agent's next runs for a group */
+  script(groupFolder: string, ...runs: FakeRun[]): void;
+  /** Every agent run so far, oldest first */
+  runs(): FakeRunRecord[];
+  /** Runs in flight (held by their script) */
+  active(): SandboxStatus[];
+  /** Runs waiting for a slot, in queue order */
+  queue(): QueuedRunStatus[];
+  /** A message arriving from WhatsApp */
+  receive(jid: string, text: string, senderName?: string): void;
+  /** One pass of the message loop */
+  processMessages(): Promise<void>;
+  /** One pass of the IPC watcher */
+  processIpc(): Promise<void>;
+  /** One pass of the scheduler loop */
+  runDueTasks(): Promise<void>;
+  tasks(): ScheduledTask[];
+  taskRuns(taskId: string): TaskRunLog[];
+  /** Registered groups as saved to data/registered_groups.json */
+  registeredGroups(): Record<string, RegisteredGroup>;
+  /** Remove the scratch directory */
+  stop(): void;
+}
+
+export function createFakeSocket(): FakeSocket {
+  let nextId = 0;
+  const sent: SentMessage[] = [];
+  return {
+    sent,
+    groups: {},
+    sentTo: jid => sent.filter(m => m.jid === jid).map(m => m.text),
+    async sendMessage(jid, content) {
+      sent.push({ jid, text: content.text, ...(content.edit && { edit: content.edit }) });
+      return { key: { remoteJid: jid, fromMe: true, id: `sent-${++nextId}` } };
+    },
+    async sendPresenceUpdate() {},
+    async groupFetchAllParticipating() {
+      return this.groups;
+    }
+  };
+}
+
+/**
+ * Set up a scratch project with the given registered groups and start the
+ * router on it, with every group on the fake backend unless its `sandbox` says
+ * otherwise. `setup` can add files to the project before the router starts.
+ */
+export async function startHarness(
+  groups: Record<string, RegisteredGroup>,
+  setup?: (dir: string) => void
+): Promise<Harness> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-test-'));
+  process.chdir(dir);
+  // The mount allowlist and secret store live under ~/.config/nanoclaw
+  process.env.HOME = dir;
+  // The fake backend refuses to run anywhere else
+  process.env.NODE_ENV = 'test';
+  process.env.SANDBOX_BACKEND = 'fake';
+  process.env.ASSISTANT_NAME = ASSISTANT_NAME;
+  process.env.AGENT_PROGRESS_MODE = 'silent';
+  process.env.LOG_LEVEL ??= 'silent';
+  for (const name of ['VERCEL_AI_GATEWAY_KEY', 'CLAUDE_CODE_OAUTH_TOKEN', 'ANTHROPIC_API_KEY']) {
+    delete process.env[name];
+  }
+
+  fs.mkdirSync(path.join(dir, 'data', 'ipc'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'data', 'registered_groups.json'), JSON.stringify(groups, null, 2));
+  setup?.(dir);
+
+  const router = await import('../src/index.js');
+  const scheduler = await import('../src/task-scheduler.js');
+  const fake = await import('../src/fake-runner.js');
+  const db = await import('../src/db.js');
+  const sandbox = await import('../src/sandbox.js');
+
+  const socket = createFakeSocket();
+  await router.initRouter();
+  router.useSocket(socket);
+
+  // Message timestamps have second resolution; one second apart keeps them ordered
+  let clock = Math.floor(Date.now() / 1000);
+  let messageId = 0;
+
+  return {
+    dir,
+    socket,
+    script: fake.scriptFakeRuns,
+    runs: fake.fakeRunHistory,
+    active: sandbox.getSandboxStatus,
+    queue: sandbox.getQueuedRuns,
+    receive(jid, text, senderName = 'Alice') {
+      const message = {
+        key: {
+          remoteJid: jid,
+          fromMe: false,
+          id: `msg-${++messageId}`,
+          ...(jid.endsWith('@g.us') && { participant: `${senderName.toLowerCase()}@s.whatsapp.net` })
+        },
+        message: { conversation: text },
+        messageTimestamp: ++clock,
+        pushName: senderName
+      } as WAMessage;
+      router.storeIncomingMessages([message]);
+    },
+    processMessages: router.processNewMessages,
+    processIpc: router.processIpcFiles,
+    runDueTasks: () => scheduler.runDueTasks(router.schedulerDependencies),
+    tasks: db.getAllTasks,
+    taskRuns: taskId => db.getTaskRunLogs(taskId),
+    registeredGroups: () => JSON.parse(fs.readFileSync(path.join(dir, 'data', 'registered_groups.json'), 'utf-8')),
+    stop() {
+      process.chdir(os.tmpdir());
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
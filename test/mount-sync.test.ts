@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, test } from 'node:test';
+import { GuestTree, hashHostTree, isSafeSyncPath, SyncManifest, syncMountBack } from '../src/mount-sync.js';
+
+let hostRoot: string;
+let guestRoot: string;
+
+beforeEach(() => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nanoclaw-test-'));
+  hostRoot = path.join(dir, 'host');
+  guestRoot = path.join(dir, 'guest');
+  fs.mkdirSync(hostRoot);
+  fs.mkdirSync(guestRoot);
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(hostRoot), { recursive: true, force: true });
+});
+
+function write(root: string, relativePath: string, content: string, mode = 0o644): void {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  fs.chmodSync(filePath, mode);
+}
+
+function read(root: string, relativePath: string): string | null {
+  const filePath = path.join(root, relativePath);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+/**
+ * Both sides start with the same files; returns the base manifest.
+ */
+async function seed(files: Record<string, string>): Promise<SyncManifest> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    write(hostRoot, relativePath, content);
+    write(guestRoot, relativePath, content);
+  }
+  return hashHostTree(hostRoot);
+}
+
+/**
+ * The guest's mount as a directory, with optional extra manifest entries the
+ * guest claims to have. Records every path read.
+ */
+function guestTree(extra: SyncManifest = {}) {
+  const reads: string[] = [];
+  const tree: GuestTree = {
+    manifest: async () => ({ ...(await hashHostTree(guestRoot)), ...extra }),
+    read: async relativePath => {
+      reads.push(relativePath);
+      const filePath = path.join(guestRoot, relativePath);
+      return { content: fs.readFileSync(filePath), mode: fs.statSync(filePath).mode & 0o777 };
+    }
+  };
+  return { tree, reads };
+}
+
+test('changes made only in the VM are applied to the host', async () => {
+  const base = await seed({ 'keep.txt': 'keep', 'edit.txt': 'old', 'run.sh': 'echo', 'gone/deep/old.txt': 'old' });
+  write(guestRoot, 'edit.txt', 'new');
+  write(guestRoot, 'new/file.txt', 'added');
+  fs.chmodSync(path.join(guestRoot, 'run.sh'), 0o755);
+  fs.rmSync(path.join(guestRoot, 'gone'), { recursive: true });
+
+  const report = await syncMountBack(hostRoot, base, guestTree().tree);
+
+  assert.deepEqual(report, {
+    added: ['new/file.txt'],
+    modified: ['edit.txt', 'run.sh'],
+    deleted: ['gone/deep/old.txt'],
+    conflicts: []
+  });
+  assert.equal(read(hostRoot, 'edit.txt'), 'new');
+  assert.equal(read(hostRoot, 'new/file.txt'), 'added');
+  assert.equal(fs.statSync(path.join(hostRoot, 'run.sh')).mode & 0o777, 0o755);
+  // The deletion's emptied directories go too
+  assert.equal(fs.existsSync(path.join(hostRoot, 'gone')), false);
+  assert.equal(read(hostRoot, 'keep.txt'), 'keep');
+});
+
+test('host edits to files the VM left alone are kept', async () => {
+  const base = await seed({ 'notes.txt': 'old', 'todo.txt': 'old' });
+  write(hostRoot, 'notes.txt', 'edited on the host');
+  fs.rmSync(path.join(hostRoot, 'todo.txt'));
+  write(hostRoot, 'host-only.txt', 'new on the host');
+
+  const { tree, reads } = guestTree();
+  const report = await syncMountBack(hostRoot, base, tree);
+
+  assert.deepEqual(report, { added: [], modified: [], deleted: [], conflicts: [] });
+  assert.deepEqual(reads, []);
+  assert.equal(read(hostRoot, 'notes.txt'), 'edited on the host');
+  assert.equal(read(hostRoot, 'todo.txt'), null);
+  assert.equal(read(hostRoot, 'host-only.txt'), 'new on the host');
+});
+
+test('the same change on both sides is not a conflict', async () => {
+  const base = await seed({ 'both.txt': 'old', 'removed.txt': 'old' });
+  for (const root of [hostRoot, guestRoot]) {
+    write(root, 'both.txt', 'same');
+    write(root, 'added.txt', 'same');
+    fs.rmSync(path.join(root, 'removed.txt'));
+  }
+
+  const { tree, reads } = guestTree();
+  const report = await syncMountBack(hostRoot, base, tree);
+
+  assert.deepEqual(report, { added: [], modified: [], deleted: [], conflicts: [] });
+  assert.deepEqual(reads, []);
+  assert.deepEqual(fs.readdirSync(hostRoot).sort(), ['added.txt', 'both.txt']);
+});
+
+test('different changes on both sides keep the host version and save the VM\'s next to it', async () => {
+  const base = await seed({ 'edited.txt': 'old', 'deleted-on-host.txt': 'old', 'deleted-in-vm.txt': 'old' });
+  write(hostRoot, 'edited.txt', 'host');
+  write(guestRoot, 'edited.txt', 'vm');
+  write(hostRoot, 'added.txt', 'host');
+  write(guestRoot, 'added.txt', 'vm');
+  fs.rmSync(path.join(hostRoot, 'deleted-on-host.txt'));
+  write(guestRoot, 'deleted-on-host.txt', 'vm');
+  write(hostRoot, 'deleted-in-vm.txt', 'host');
+  fs.rmSync(path.join(guestRoot, 'deleted-in-vm.txt'));
+
+  const report = await syncMountBack(hostRoot, base, guestTree().tree);
+
+  assert.deepEqual([report.added, report.modified, report.deleted], [[], [], []]);
+  assert.deepEqual(report.conflicts.map(c => [c.path, c.reason]), [
+    ['added.txt', 'added in the VM, added on the host'],
+    ['deleted-in-vm.txt', 'deleted in the VM, modified on the host'],
+    ['deleted-on-host.txt', 'modified in the VM, deleted on the host'],
+    ['edited.txt', 'modified in the VM, modified on the host']
+  ]);
+
+  assert.equal(read(hostRoot, 'edited.txt'), 'host');
+  assert.equal(read(hostRoot, 'added.txt'), 'host');
+  assert.equal(read(hostRoot, 'deleted-on-host.txt'), null);
+  assert.equal(read(hostRoot, 'deleted-in-vm.txt'), 'host');
+
+  const [deletedInVm] = report.conflicts.filter(c => c.path === 'deleted-in-vm.txt');
+  assert.equal(deletedInVm.copy, null);
+  for (const conflict of report.conflicts.filter(c => c !== deletedInVm)) {
+    assert.match(conflict.copy!, new RegExp(`^${conflict.path.replace('.', '\\.')}\\.conflict-\\d{8}T\\d{6}$`));
+    assert.equal(read(hostRoot, conflict.copy!), 'vm');
+  }
+});
+
+test('paths from the VM that leave the mount or touch .git are ignored', async () => {
+  const base = await seed({ 'ok.txt': 'old' });
+  write(guestRoot, 'ok.txt', 'new');
+  const entry = { sha256: '0'.repeat(64), mode: 0o644 };
+  const unsafe = [
+    '../escape.txt',
+    '../../etc/cron.d/job',
+    'a/../../escape.txt',
+    'a/./b.txt',
+    'a//b.txt',
+    '/etc/passwd',
+    '.',
+    '..',
+    '.git/config',
+    '.git/hooks/post-checkout',
+    'sub/.git/config',
+    'node_modules/pkg/index.js'
+  ];
+
+  const { tree, reads } = guestTree(Object.fromEntries(unsafe.map(p => [p, entry])));
+  const report = await syncMountBack(hostRoot, base, tree);
+
+  assert.deepEqual(report, { added: [], modified: ['ok.txt'], deleted: [], conflicts: [] });
+  assert.deepEqual(reads, ['ok.txt']);
+  assert.equal(fs.existsSync(path.join(path.dirname(hostRoot), 'escape.txt')), false);
+  assert.deepEqual(fs.readdirSync(hostRoot), ['ok.txt']);
+
+  for (const relativePath of unsafe) {
+    assert.equal(isSafeSyncPath(relativePath), false, relativePath);
+  }
+  for (const relativePath of ['ok.txt', 'a/b.txt', '.gitignore', 'docs/.github/x.yml', '..hidden']) {
+    assert.equal(isSafeSyncPath(relativePath), true, relativePath);
+  }
+});
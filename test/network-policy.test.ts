@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildGuestHosts, buildRuleset, ResolvedNetworkPolicy, validateNetworkConfig } from '../src/network-policy.js';
+
+const TAP = 'tap3';
+const IP = '172.16.0.4';
+const MAC = '06:00:ac:10:00:04';
+
+/**
+ * The rules of the table's input chain after the baseline every mode shares,
+ * ending with the chain's final drop.
+ */
+function policyRules(policy: ResolvedNetworkPolicy): string[] {
+  const ruleset = buildRuleset(TAP, IP, MAC, policy);
+  const input = ruleset.slice(ruleset.indexOf('chain input {'), ruleset.indexOf('chain forward {'));
+  const rules = input.split('\n').map(line => line.trim()).filter(Boolean);
+  return rules.slice(rules.indexOf('ct state established,related accept') + 1, -1);
+}
+
+test('the baseline pins the VM\'s addresses and isolates it from other VMs and the host', () => {
+  const ruleset = buildRuleset(TAP, IP, MAC, { mode: 'full', dnsServers: ['8.8.8.8'], allowCidrs: [], pinnedHosts: [] });
+
+  assert.match(ruleset, /^add table bridge nanoclaw_tap3\ndelete table bridge nanoclaw_tap3\ntable bridge nanoclaw_tap3 \{/);
+  for (const rule of [
+    `ether saddr != ${MAC} drop`,
+    `arp saddr ip ${IP} accept`,
+    `ip saddr != ${IP} drop`,
+    'ip daddr 172.16.0.0/24 drop',
+    `iifname "${TAP}" drop`,
+    `oifname "${TAP}" drop`
+  ]) {
+    assert.ok(ruleset.includes(`    ${rule}\n`), rule);
+  }
+  assert.match(ruleset, /ip daddr \{ [^}]*127\.0\.0\.1[^}]* \} drop/);
+});
+
+test('full mode accepts everything past the baseline', () => {
+  const rules = policyRules({ mode: 'full', dnsServers: ['8.8.8.8'], allowCidrs: [], pinnedHosts: [] });
+  assert.deepEqual(rules.slice(0, 3), [
+    'ip daddr { 8.8.8.8 } udp dport 53 accept',
+    'ip daddr { 8.8.8.8 } tcp dport 53 accept',
+    'ip daddr 172.16.0.0/24 drop'
+  ]);
+  assert.deepEqual(rules.slice(-2), ['accept', 'drop']);
+});
+
+test('allowlist mode accepts only its CIDRs and pinned addresses', () => {
+  const rules = policyRules({
+    mode: 'allowlist',
+    dnsServers: ['1.1.1.1', '9.9.9.9'],
+    allowCidrs: ['10.20.0.0/16'],
+    pinnedHosts: [
+      { name: 'api.github.com', addresses: ['140.82.112.6', '10.20.1.1'] },
+      { name: 'ai-gateway.vercel.sh', addresses: ['140.82.112.6'] }
+    ]
+  });
+  assert.deepEqual(rules.slice(0, 2), [
+    'ip daddr { 1.1.1.1, 9.9.9.9 } udp dport 53 accept',
+    'ip daddr { 1.1.1.1, 9.9.9.9 } tcp dport 53 accept'
+  ]);
+  assert.deepEqual(rules.slice(-4), [
+    'ip daddr 10.20.0.0/16 accept',
+    'ip daddr 140.82.112.6 accept',
+    'ip daddr 10.20.1.1 accept',
+    'drop'
+  ]);
+  assert.ok(!rules.includes('accept'));
+});
+
+test('none mode reaches only the model API, without DNS', () => {
+  const rules = policyRules({
+    mode: 'none',
+    dnsServers: [],
+    allowCidrs: [],
+    pinnedHosts: [{ name: 'ai-gateway.vercel.sh', addresses: ['76.76.21.21'] }]
+  });
+  assert.ok(!rules.some(rule => rule.includes('dport 53')));
+  assert.equal(rules[0], 'ip daddr 172.16.0.0/24 drop');
+  assert.deepEqual(rules.slice(-2), ['ip daddr 76.76.21.21 accept', 'drop']);
+});
+
+test('pinned hosts go in the guest\'s /etc/hosts', () => {
+  const hosts = buildGuestHosts({
+    mode: 'none',
+    dnsServers: [],
+    allowCidrs: [],
+    pinnedHosts: [{ name: 'ai-gateway.vercel.sh', addresses: ['76.76.21.21', '76.76.21.22'] }]
+  });
+  assert.equal(hosts, '127.0.0.1 localhost nanoclaw-agent\n::1 localhost\n76.76.21.21 ai-gateway.vercel.sh\n76.76.21.22 ai-gateway.vercel.sh\n');
+});
+
+test('accepts valid network configs', () => {
+  assert.deepEqual(validateNetworkConfig({}), []);
+  assert.deepEqual(validateNetworkConfig({ mode: 'none' }), []);
+  assert.deepEqual(validateNetworkConfig({
+    mode: 'allowlist',
+    allow: ['api.github.com', 'registry.npmjs.org', '10.0.0.0/8', '192.168.1.10'],
+    dns: ['1.1.1.1']
+  }), []);
+});
+
+test('rejects invalid modes, allow entries and DNS servers', () => {
+  assert.equal(validateNetworkConfig({ mode: 'open' as never }).length, 1);
+  assert.deepEqual(validateNetworkConfig({ mode: 'full', allow: ['api.github.com'] }), [
+    'network allow entries only apply in allowlist mode, not full'
+  ]);
+  assert.deepEqual(validateNetworkConfig({ mode: 'allowlist', allow: 'api.github.com' as never }), [
+    'network allow must be a list of domains or CIDRs'
+  ]);
+
+  const badEntries = ['localhost', '10.0.0.0/33', '256.1.1.1', '10.0.0.0/8/8', 'https://example.com', '*.example.com', '; drop'];
+  assert.deepEqual(
+    validateNetworkConfig({ mode: 'allowlist', allow: badEntries }),
+    badEntries.map(entry => `network allow entry is not a domain or IPv4 CIDR: ${entry}`)
+  );
+
+  assert.deepEqual(validateNetworkConfig({ dns: [] }), ['network dns must be a non-empty list of IPv4 addresses']);
+  assert.deepEqual(validateNetworkConfig({ dns: ['dns.google', '8.8.8.8', '1.1.1.1/32'] }), [
+    'network dns server is not an IPv4 address: dns.google',
+    'network dns server is not an IPv4 address: 1.1.1.1/32'
+  ]);
+});
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findOrphans, VmLeftovers } from '../src/reaper.js';
+
+const NOTHING: VmLeftovers = { processes: [], jails: [], mounts: [], taps: [], files: [] };
+
+// VM 3 is running; anything else named after a vmId is left from a crashed run
+const LIVE = new Set([3]);
+
+test('Firecracker processes are matched by the vmId in their API socket', () => {
+  const orphans = findOrphans({
+    ...NOTHING,
+    processes: [
+      { pid: 100, socketPath: '/tmp/nanoclaw-fc-3.socket' },
+      { pid: 101, socketPath: '/tmp/nanoclaw-fc-7.socket' },
+      { pid: 102, socketPath: '/tmp/nanoclaw-fc-33.socket' },
+      // Someone else's Firecracker
+      { pid: 103, socketPath: '/run/firecracker.socket' },
+      { pid: 104, socketPath: '/home/me/nanoclaw-fc-7.socket' },
+      { pid: 105, socketPath: '' }
+    ]
+  }, LIVE);
+  assert.deepEqual(orphans.processes.map(p => p.pid), [101, 102]);
+});
+
+test('jails and TAP devices are matched by their vmId', () => {
+  const orphans = findOrphans({
+    ...NOTHING,
+    jails: [3, 9],
+    taps: ['tap3', 'tap7', 'tap30', 'fcbr0', 'tap', 'tapx1', 'docker0']
+  }, LIVE);
+  assert.deepEqual(orphans.jails, [9]);
+  assert.deepEqual(orphans.taps, ['tap7', 'tap30']);
+});
+
+test('/tmp entries of every kind a VM creates are matched by their vmId', () => {
+  const orphans = findOrphans({
+    ...NOTHING,
+    files: [
+      'nanoclaw-overlay-3.ext4',
+      'nanoclaw-overlay-7.ext4',
+      'nanoclaw-drive-7-0.ext4',
+      'nanoclaw-drive-7-1.ext4.build',
+      'nanoclaw-fc-7.socket',
+      'nanoclaw-fc-7.log',
+      'nanoclaw-vsock-7.sock',
+      'nanoclaw-mount-7',
+      'nanoclaw-ssh-7',
+      'nanoclaw-vm-7.ext4',
+      'nanoclaw-ssh-3',
+      'nanoclaw-overlay-37.ext4',
+      // Not named after a vmId
+      'nanoclaw-test-a1b2c3',
+      'nanoclaw-overlay-7x.ext4',
+      'nanoclaw-overlay-.ext4',
+      'my-nanoclaw-overlay-7.ext4',
+      'systemd-private-abc'
+    ]
+  }, LIVE);
+  assert.deepEqual(orphans.files, [
+    'nanoclaw-overlay-7.ext4',
+    'nanoclaw-drive-7-0.ext4',
+    'nanoclaw-drive-7-1.ext4.build',
+    'nanoclaw-fc-7.socket',
+    'nanoclaw-fc-7.log',
+    'nanoclaw-vsock-7.sock',
+    'nanoclaw-mount-7',
+    'nanoclaw-ssh-7',
+    'nanoclaw-vm-7.ext4',
+    'nanoclaw-overlay-37.ext4'
+  ]);
+});
+
+test('only mounts directly in /tmp are ours', () => {
+  const orphans = findOrphans({
+    ...NOTHING,
+    mounts: ['/', '/tmp', '/tmp/nanoclaw-mount-3', '/tmp/nanoclaw-mount-7', '/mnt/nanoclaw-mount-7', '/tmp/nanoclaw-mount-7/sub']
+  }, LIVE);
+  assert.deepEqual(orphans.mounts, ['/tmp/nanoclaw-mount-7']);
+});
+
+test('nothing is an orphan while its lease is live', () => {
+  const leftovers: VmLeftovers = {
+    processes: [{ pid: 100, socketPath: '/tmp/nanoclaw-fc-7.socket' }],
+    jails: [7],
+    mounts: ['/tmp/nanoclaw-mount-7'],
+    taps: ['tap7'],
+    files: ['nanoclaw-overlay-7.ext4']
+  };
+  assert.deepEqual(findOrphans(leftovers, new Set([3, 7])), NOTHING);
+  assert.deepEqual(findOrphans(leftovers, new Set()), leftovers);
+});
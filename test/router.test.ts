@@ -0,0 +1,150 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { ASSISTANT_NAME, Harness, startHarness } from './harness.js';
+
+const MAIN = '10000@s.whatsapp.net';
+const TEAM = '20000@g.us';
+const OTHER = '30000@g.us';
+const NEW_GROUP = '40000@g.us';
+
+const TRIGGER = `@${ASSISTANT_NAME}`;
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({
+    [MAIN]: { name: 'Main', folder: 'main', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [TEAM]: { name: 'Team', folder: 'team', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [OTHER]: { name: 'Other', folder: 'other', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' }
+  });
+});
+
+after(() => h.stop());
+
+test('replies to a triggered message with the agent\'s result', async () => {
+  h.script('team', { output: { result: 'Hi there', newSessionId: 'session-1' } });
+  h.receive(TEAM, `${TRIGGER} hello`);
+  await h.processMessages();
+
+  assert.deepEqual(h.socket.sentTo(TEAM), [`${ASSISTANT_NAME}: Hi there`]);
+  const run = h.runs().at(-1)!;
+  assert.equal(run.groupFolder, 'team');
+  assert.equal(run.input.isMain, false);
+  assert.equal(run.input.sessionId, undefined);
+  assert.match(run.input.prompt, /<message sender="Alice" time="[^"]+">@Andy hello<\/message>/);
+});
+
+test('ignores untriggered messages outside main, but passes them on with the next run', async () => {
+  const runCount = h.runs().length;
+  h.receive(TEAM, 'just chatting', 'Bob');
+  await h.processMessages();
+  assert.equal(h.runs().length, runCount);
+
+  h.script('team', { output: { result: 'Noted' } });
+  h.receive(TEAM, `${TRIGGER} and again`);
+  await h.processMessages();
+
+  const run = h.runs().at(-1)!;
+  assert.equal(run.input.sessionId, 'session-1');
+  assert.match(run.input.prompt, /just chatting/);
+  assert.match(run.input.prompt, /and again/);
+  assert.doesNotMatch(run.input.prompt, /hello/);
+});
+
+test('main responds without the trigger', async () => {
+  h.script('main', { output: { result: 'Yes?' } });
+  h.receive(MAIN, 'status please');
+  await h.processMessages();
+
+  assert.equal(h.runs().at(-1)!.input.isMain, true);
+  assert.deepEqual(h.socket.sentTo(MAIN), [`${ASSISTANT_NAME}: Yes?`]);
+});
+
+test('sends nothing when the run fails', async () => {
+  const sentCount = h.socket.sent.length;
+  // Nothing scripted, so the run fails
+  h.receive(OTHER, `${TRIGGER} anyone there?`);
+  await h.processMessages();
+
+  assert.equal(h.runs().at(-1)!.output.status, 'error');
+  assert.equal(h.socket.sent.length, sentCount);
+});
+
+test('/reset starts a fresh session without running the agent', async () => {
+  const runCount = h.runs().length;
+  h.receive(TEAM, `${TRIGGER} /reset`);
+  await h.processMessages();
+
+  assert.equal(h.runs().length, runCount);
+  assert.equal(h.socket.sentTo(TEAM).at(-1), `${ASSISTANT_NAME}: Session reset, starting fresh.`);
+
+  h.script('team', { output: { result: 'Fresh' } });
+  h.receive(TEAM, `${TRIGGER} who are you?`);
+  await h.processMessages();
+  const run = h.runs().at(-1)!;
+  assert.equal(run.input.sessionId, undefined);
+  assert.doesNotMatch(run.input.prompt, /reset/);
+});
+
+test('IPC messages reach the group\'s own chat only', async () => {
+  h.script('team', {
+    output: { result: 'Done' },
+    messages: [
+      { type: 'message', chatJid: TEAM, text: 'Working on it' },
+      { type: 'message', chatJid: OTHER, text: 'Not my chat' }
+    ]
+  });
+  const otherSent = h.socket.sentTo(OTHER).length;
+  h.receive(TEAM, `${TRIGGER} do the thing`);
+  await h.processMessages();
+  await h.processIpc();
+
+  assert.deepEqual(h.socket.sentTo(TEAM).slice(-2), [`${ASSISTANT_NAME}: Done`, `${ASSISTANT_NAME}: Working on it`]);
+  assert.equal(h.socket.sentTo(OTHER).length, otherSent);
+});
+
+test('main can send IPC messages to any group', async () => {
+  h.script('main', {
+    output: { result: 'Sent' },
+    messages: [{ type: 'message', chatJid: OTHER, text: 'Hello from main' }]
+  });
+  h.receive(MAIN, 'tell the other group hello');
+  await h.processMessages();
+  await h.processIpc();
+
+  assert.equal(h.socket.sentTo(OTHER).at(-1), `${ASSISTANT_NAME}: Hello from main`);
+});
+
+test('only main can register groups', async () => {
+  const registration = { type: 'register_group', jid: NEW_GROUP, name: 'New', folder: 'new', trigger: TRIGGER };
+
+  h.script('team', { output: { result: 'Trying' }, tasks: [registration] });
+  h.receive(TEAM, `${TRIGGER} register a group`);
+  await h.processMessages();
+  await h.processIpc();
+  assert.equal(h.registeredGroups()[NEW_GROUP], undefined);
+
+  h.script('main', { output: { result: 'Registered' }, tasks: [registration] });
+  h.receive(MAIN, 'register a group');
+  await h.processMessages();
+  await h.processIpc();
+  assert.equal(h.registeredGroups()[NEW_GROUP]?.folder, 'new');
+});
+
+test('groups can only schedule tasks for themselves', async () => {
+  const runAt = new Date(Date.now() + 3_600_000).toISOString();
+  h.script('team', {
+    output: { result: 'Scheduled' },
+    tasks: [
+      { type: 'schedule_task', prompt: 'own task', schedule_type: 'once', schedule_value: runAt, groupFolder: 'team' },
+      { type: 'schedule_task', prompt: 'foreign task', schedule_type: 'once', schedule_value: runAt, groupFolder: 'other' }
+    ]
+  });
+  h.receive(TEAM, `${TRIGGER} remind me`);
+  await h.processMessages();
+  await h.processIpc();
+
+  const tasks = h.tasks();
+  assert.deepEqual(tasks.map(t => [t.group_folder, t.prompt]), [['team', 'own task']]);
+  assert.equal(tasks[0].chat_jid, TEAM);
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import type { RunRequest } from '../src/run-queue.js';
+
+// Limits are read when the module is first imported. No free memory or load
+// limit, so admission only depends on the queue itself
+process.env.MAX_CONCURRENT_RUNS = '2';
+process.env.RUN_MIN_FREE_MEMORY_MIB = '0';
+process.env.RUN_MAX_LOAD = '1000';
+process.env.LOG_LEVEL ??= 'silent';
+
+let queue: typeof import('../src/run-queue.js');
+
+before(async () => {
+  queue = await import('../src/run-queue.js');
+});
+
+/**
+ * Queue a run and record when it starts and where it stood while waiting.
+ */
+function enqueue(groupFolder: string, priority: RunRequest['priority'] = 'interactive') {
+  const run = {
+    started: false,
+    positions: [] as number[],
+    release: () => {}
+  };
+  queue.acquireRunSlot({
+    groupFolder,
+    priority,
+    memoryMib: 0,
+    onQueued: position => run.positions.push(position)
+  }).then(release => {
+    run.started = true;
+    run.release = release;
+  });
+  return run;
+}
+
+// Let admitted runs' promises settle
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('starts at most MAX_CONCURRENT_RUNS runs at once', async () => {
+  const runs = [enqueue('a'), enqueue('b'), enqueue('c')];
+  await settle();
+  assert.deepEqual(runs.map(r => r.started), [true, true, false]);
+  assert.deepEqual(runs[2].positions, [1]);
+
+  runs[0].release();
+  await settle();
+  assert.equal(runs[2].started, true);
+
+  runs[1].release();
+  runs[2].release();
+  assert.deepEqual(queue.getRunQueue(), []);
+});
+
+test('never runs two runs for one group at once', async () => {
+  const first = enqueue('a');
+  const second = enqueue('a');
+  await settle();
+  assert.equal(first.started, true);
+  assert.equal(second.started, false);
+
+  first.release();
+  await settle();
+  assert.equal(second.started, true);
+  second.release();
+});
+
+test('messages go ahead of scheduled tasks', async () => {
+  const busy = [enqueue('x'), enqueue('y')];
+  const task = enqueue('a', 'scheduled');
+  const message = enqueue('b');
+  await settle();
+  assert.deepEqual(queue.getRunQueue().map(r => r.groupFolder), ['b', 'a']);
+  assert.deepEqual(task.positions, [1, 2]);
+  assert.deepEqual(message.positions, [1]);
+
+  busy[0].release();
+  await settle();
+  assert.equal(message.started, true);
+  assert.equal(task.started, false);
+
+  busy[1].release();
+  await settle();
+  assert.equal(task.started, true);
+  message.release();
+  task.release();
+});
+
+test('a group with a backlog doesn\'t hold the others up', async () => {
+  const busy = enqueue('x');
+  const backlog = [enqueue('a', 'scheduled'), enqueue('a', 'scheduled'), enqueue('a', 'scheduled')];
+  await settle();
+  assert.equal(backlog[0].started, true);
+
+  // Group a just started a run, so b's goes first once a's is done
+  const other = enqueue('b', 'scheduled');
+  await settle();
+  assert.deepEqual(queue.getRunQueue().map(r => r.groupFolder), ['b', 'a', 'a']);
+
+  backlog[0].release();
+  await settle();
+  assert.equal(other.started, true);
+  assert.equal(backlog[1].started, false);
+
+  busy.release();
+  await settle();
+  assert.equal(backlog[1].started, true);
+
+  other.release();
+  backlog[1].release();
+  await settle();
+  backlog[2].release();
+  assert.deepEqual(queue.getRunQueue(), []);
+});
@@ -0,0 +1,169 @@
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { ASSISTANT_NAME, Harness, startHarness } from './harness.js';
+
+const MAIN = '10000@s.whatsapp.net';
+const TEAM = '20000@g.us';
+const OTHER = '30000@g.us';
+
+const TRIGGER = `@${ASSISTANT_NAME}`;
+
+let h: Harness;
+
+before(async () => {
+  h = await startHarness({
+    [MAIN]: { name: 'Main', folder: 'main', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [TEAM]: { name: 'Team', folder: 'team', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' },
+    [OTHER]: { name: 'Other', folder: 'other', trigger: TRIGGER, added_at: '2026-01-01T00:00:00.000Z' }
+  });
+});
+
+after(() => h.stop());
+
+/**
+ * Have a group's agent schedule a task over IPC, as the schedule_task tool
+ * does, and return it.
+ */
+async function scheduleTask(jid: string, groupFolder: string, task: Record<string, string>) {
+  const existing = new Set(h.tasks().map(t => t.id));
+  h.script(groupFolder, {
+    output: { result: 'Scheduled' },
+    tasks: [{ type: 'schedule_task', groupFolder, ...task }]
+  });
+  h.receive(jid, `${TRIGGER} schedule it`);
+  await h.processMessages();
+  await h.processIpc();
+
+  const created = h.tasks().filter(t => !existing.has(t.id));
+  assert.equal(created.length, 1);
+  return created[0];
+}
+
+const dueNow = () => new Date(Date.now() - 1000).toISOString();
+
+test('runs a due task in its group and logs the run', async () => {
+  const task = await scheduleTask(TEAM, 'team', {
+    prompt: 'Post the daily summary',
+    schedule_type: 'once',
+    schedule_value: dueNow()
+  });
+  assert.equal(task.status, 'active');
+  assert.equal(task.context_mode, 'isolated');
+
+  h.script('team', {
+    output: { result: 'Summary posted' },
+    messages: [{ type: 'message', chatJid: TEAM, text: 'Here is your summary' }]
+  });
+  await h.runDueTasks();
+  await h.processIpc();
+
+  const run = h.runs().at(-1)!;
+  assert.equal(run.groupFolder, 'team');
+  assert.equal(run.input.prompt, 'Post the daily summary');
+  assert.equal(run.input.isScheduledTask, true);
+  assert.equal(run.input.sessionId, undefined);
+
+  // The result is only logged; the agent messages the chat itself
+  assert.equal(h.socket.sentTo(TEAM).at(-1), `${ASSISTANT_NAME}: Here is your summary`);
+  const [log] = h.taskRuns(task.id);
+  assert.equal(log.status, 'success');
+  assert.equal(log.result, 'Summary posted');
+
+  const done = h.tasks().find(t => t.id === task.id)!;
+  assert.equal(done.status, 'completed');
+  assert.equal(done.next_run, null);
+});
+
+test('group context tasks continue the group\'s session', async () => {
+  h.script('other', { output: { result: 'Hello', newSessionId: 'session-1' } });
+  h.receive(OTHER, `${TRIGGER} hello`);
+  await h.processMessages();
+
+  await scheduleTask(OTHER, 'other', {
+    prompt: 'Follow up',
+    schedule_type: 'once',
+    schedule_value: dueNow(),
+    context_mode: 'group'
+  });
+  h.script('other', { output: { result: 'Followed up', newSessionId: 'session-2' } });
+  await h.runDueTasks();
+  assert.equal(h.runs().at(-1)!.input.sessionId, 'session-1');
+
+  h.script('other', { output: { result: 'Still here' } });
+  h.receive(OTHER, `${TRIGGER} still there?`);
+  await h.processMessages();
+  assert.equal(h.runs().at(-1)!.input.sessionId, 'session-2');
+});
+
+test('paused tasks are skipped until resumed', async () => {
+  const task = await scheduleTask(TEAM, 'team', {
+    prompt: 'Check the build',
+    schedule_type: 'once',
+    schedule_value: dueNow()
+  });
+  h.script('team', {
+    output: { result: 'Paused' },
+    tasks: [{ type: 'pause_task', taskId: task.id }]
+  });
+  h.receive(TEAM, `${TRIGGER} pause it`);
+  await h.processMessages();
+  await h.processIpc();
+  assert.equal(h.tasks().find(t => t.id === task.id)!.status, 'paused');
+
+  const runCount = h.runs().length;
+  await h.runDueTasks();
+  assert.equal(h.runs().length, runCount);
+
+  h.script('team', {
+    output: { result: 'Resumed' },
+    tasks: [{ type: 'resume_task', taskId: task.id }]
+  });
+  h.receive(TEAM, `${TRIGGER} resume it`);
+  await h.processMessages();
+  await h.processIpc();
+
+  h.script('team', { output: { result: 'Build is green' } });
+  await h.runDueTasks();
+  assert.equal(h.runs().at(-1)!.input.prompt, 'Check the build');
+  assert.equal(h.taskRuns(task.id)[0].result, 'Build is green');
+});
+
+test('groups cannot pause or cancel another group\'s tasks', async () => {
+  const task = await scheduleTask(TEAM, 'team', {
+    prompt: 'Weekly report',
+    schedule_type: 'cron',
+    schedule_value: '0 9 * * 1'
+  });
+
+  h.script('other', {
+    output: { result: 'Trying' },
+    tasks: [
+      { type: 'pause_task', taskId: task.id },
+      { type: 'cancel_task', taskId: task.id }
+    ]
+  });
+  h.receive(OTHER, `${TRIGGER} stop their report`);
+  await h.processMessages();
+  await h.processIpc();
+  assert.equal(h.tasks().find(t => t.id === task.id)?.status, 'active');
+
+  // Main may manage every group's tasks
+  h.script('main', { output: { result: 'Cancelled' }, tasks: [{ type: 'cancel_task', taskId: task.id }] });
+  h.receive(MAIN, 'cancel the weekly report');
+  await h.processMessages();
+  await h.processIpc();
+  assert.equal(h.tasks().find(t => t.id === task.id), undefined);
+});
+
+test('a failed task run is logged with its error', async () => {
+  const task = await scheduleTask(TEAM, 'team', {
+    prompt: 'Nothing scripted for this one',
+    schedule_type: 'once',
+    schedule_value: dueNow()
+  });
+  await h.runDueTasks();
+
+  const [log] = h.taskRuns(task.id);
+  assert.equal(log.status, 'error');
+  assert.equal(log.error, 'No scripted run for team');
+});